@@ -1,8 +1,11 @@
+import mdx from "@astrojs/mdx";
 import sitemap from "@astrojs/sitemap";
 import svelte from "@astrojs/svelte";
+import swup from "@swup/astro";
 import tailwind from "@astrojs/tailwind";
 import { defineConfig } from "astro/config";
 import icon from "astro-icon";
+import serviceWorker from "./src/service-worker/integration";
 
 // https://astro.build/config
 export default defineConfig({
@@ -20,8 +23,19 @@ export default defineConfig({
 			nesting: true,
 		}),
 		svelte(),
+		// News posts can be MDX, with components inline
+		mdx(),
 		icon(),
 		sitemap(),
+		// Page transitions swap only <main>, so the audio player keeps playing.
+		// Scripts outside <main> aren't re-run; page setup listens for astro:page-load.
+		swup({
+			theme: "fade",
+			containers: ["main"],
+			reloadScripts: false,
+		}),
+		// Compiles src/service-worker/sw.ts with a precache list of the finished build
+		serviceWorker(),
 	],
 
 	vite: {
@@ -78,6 +78,7 @@ export const navConfig: readonly Readonly<NavLink>[] = Object.freeze([
 	Object.freeze({ name: "Music", url: ROUTES.MUSIC, icon: "material-symbols:music-note" }),
 	Object.freeze({ name: "Play Along", url: ROUTES.PLAY, icon: "material-symbols:play-circle" }),
 	Object.freeze({ name: "Gallery", url: ROUTES.GALLERY, icon: "material-symbols:photo-library" }),
+	Object.freeze({ name: "News", url: ROUTES.NEWS, icon: "material-symbols:newspaper" }),
 ]);
 
 // =============================================================================
@@ -99,6 +100,7 @@ export const strudelConfig: Readonly<StrudelConfig> = Object.freeze({
   s("[~ hh]*4"),
   s("~ sd ~ sd")
 ).slow(2)`,
+	localPlayback: true,
 });
 
 // =============================================================================
@@ -40,6 +40,9 @@ export const EXTERNAL_URLS = {
 	TWITTER: "https://twitter.com",
 	/** TikTok */
 	TIKTOK: "https://tiktok.com",
+	/** Sample map strudel.cc loads its drum machine banks (`.bank()`) from */
+	STRUDEL_DRUM_MACHINES:
+		"https://raw.githubusercontent.com/felixroos/dough-samples/main/tidal-drum-machines.json",
 } as const;
 
 // =============================================================================
@@ -60,6 +63,8 @@ export const ASSET_PATHS = {
 	IMAGES: `${BASE_PATH}/assets/images`,
 	/** Release cover art */
 	RELEASES: `${BASE_PATH}/assets/images/releases`,
+	/** Song audio (previews and full tracks) */
+	AUDIO: `${BASE_PATH}/assets/audio`,
 } as const;
 
 // =============================================================================
@@ -75,12 +80,42 @@ export const ROUTES = {
 	music: `${BASE_PATH}/music/`,
 	play: `${BASE_PATH}/play/`,
 	gallery: `${BASE_PATH}/gallery/`,
+	news: `${BASE_PATH}/news/`,
 	// Also expose uppercase for backward compatibility
 	HOME: `${BASE_PATH}/`,
 	ABOUT: `${BASE_PATH}/about/`,
 	MUSIC: `${BASE_PATH}/music/`,
 	PLAY: `${BASE_PATH}/play/`,
 	GALLERY: `${BASE_PATH}/gallery/`,
+	NEWS: `${BASE_PATH}/news/`,
+	/** Detail page for a release, e.g. `ROUTES.release("single-asha")` */
+	release: (id: string): `${typeof BASE_PATH}/music/${string}/` =>
+		`${BASE_PATH}/music/${encodeURIComponent(id)}/`,
+	/** Profile page for a band member, e.g. `ROUTES.member("reetwiz")` */
+	member: (id: string): `${typeof BASE_PATH}/about/${string}/` =>
+		`${BASE_PATH}/about/${encodeURIComponent(id)}/`,
+	/** Play Along page with a song preselected */
+	playSong: (id: string): `${typeof BASE_PATH}/play/?song=${string}` =>
+		`${BASE_PATH}/play/?song=${encodeURIComponent(id)}`,
+	/** Printable chord chart for a song, e.g. `ROUTES.chords("asha")` */
+	chords: (id: string): `${typeof BASE_PATH}/chords/${string}/` =>
+		`${BASE_PATH}/chords/${encodeURIComponent(id)}/`,
+	/** News post, e.g. `ROUTES.post("studio-diary-rahar")` */
+	post: (id: string): `${typeof BASE_PATH}/news/${string}/` =>
+		`${BASE_PATH}/news/${encodeURIComponent(id)}/`,
+	/** Posts with a tag, e.g. `ROUTES.newsTag("strudel")` */
+	newsTag: (tag: string): `${typeof BASE_PATH}/news/tags/${string}/` =>
+		`${BASE_PATH}/news/tags/${encodeURIComponent(tag)}/`,
+	/** Site search, e.g. `${ROUTES.search}?q=rahar` */
+	search: `${BASE_PATH}/search/`,
+	/** Index the search page matches against (see data/search) */
+	searchIndex: `${BASE_PATH}/search-index.json`,
+	/** Feeds of new releases and posts, in RSS 2.0, Atom and JSON Feed formats */
+	rss: `${BASE_PATH}/rss.xml`,
+	atom: `${BASE_PATH}/atom.xml`,
+	jsonFeed: `${BASE_PATH}/feed.json`,
+	/** Open Graph card image, e.g. `ROUTES.ogImage("music/single-asha")` */
+	ogImage: (slug: string): `${typeof BASE_PATH}/og/${string}.png` => `${BASE_PATH}/og/${slug}.png`,
 } as const;
 
 // =============================================================================
@@ -166,6 +201,87 @@ export const STRUDEL_DEFAULTS = {
 	MIN_BPM: 20,
 	MAX_BPM: 300,
 	DEFAULT_BPM: 120,
+	/** Louder than 1 clips once a few voices stack up */
+	MAX_GAIN: 1,
+	/** MIDI range of a piano keyboard, a0 to c8 */
+	LOWEST_NOTE: 21,
+	HIGHEST_NOTE: 108,
+} as const;
+
+/**
+ * Sound names available on strudel.cc without loading extra samples
+ */
+export const STRUDEL_SOUNDS = [
+	// Drum machine samples
+	"bd",
+	"sd",
+	"hh",
+	"oh",
+	"cp",
+	"rim",
+	"lt",
+	"mt",
+	"ht",
+	"cr",
+	"rd",
+	"cb",
+	"sh",
+	"tb",
+	"perc",
+	// Synths
+	"sine",
+	"sawtooth",
+	"saw",
+	"square",
+	"triangle",
+	"tri",
+	"white",
+	"pink",
+	"brown",
+	// Instruments
+	"piano",
+] as const;
+
+/**
+ * Drum machine banks available to `.bank()` on strudel.cc
+ */
+export const STRUDEL_BANKS = [
+	"RolandTR909",
+	"RolandTR808",
+	"RolandTR707",
+	"RolandTR606",
+	"RolandCR78",
+	"LinnDrum",
+	"AkaiLinn",
+	"BossDR110",
+	"KorgMinipops",
+	"OberheimDMX",
+] as const;
+
+/**
+ * Songs saved for offline Play Along (see utils/offline)
+ *
+ * The cache isn't versioned, so saved songs outlive service worker updates.
+ */
+export const OFFLINE_SONGS = {
+	/** Cache holding each song's record, cover art and drum samples */
+	CACHE_NAME: "inzies-offline",
+	/** Where song records are stored in the cache, as `<id>.json` */
+	RECORD_PATH: `${BASE_PATH}/offline/songs/`,
+} as const;
+
+// =============================================================================
+// NEWS
+// =============================================================================
+
+/**
+ * News posts (see data/posts)
+ */
+export const NEWS = {
+	/** Posts per page on the news and tag index pages */
+	POSTS_PER_PAGE: 6,
+	/** Reading speed used for each post's reading time */
+	WORDS_PER_MINUTE: 200,
 } as const;
 
 // =============================================================================
@@ -249,3 +365,13 @@ export const META_DEFAULTS = {
 	CHARSET: "UTF-8",
 	VIEWPORT: "width=device-width, initial-scale=1.0",
 } as const;
+
+/**
+ * Open Graph card size, the one Facebook, X and LinkedIn all recommend
+ */
+export const OG_IMAGE = {
+	WIDTH: 1200,
+	HEIGHT: 630,
+	/** Side of the square cover art beside the title */
+	COVER_SIZE: 380,
+} as const;
@@ -0,0 +1,198 @@
+/**
+ * Content Collections for Inzies Band Website
+ *
+ * Defines the Markdown/MDX/YAML collections that hold releases, songs,
+ * band members, news posts and gallery images, with zod schemas that mirror the
+ * types in `src/types`. Entries that don't match their schema fail
+ * `astro build` with the file and field named in the error.
+ *
+ * The data modules in `src/data` wrap these collections, so pages keep
+ * importing from there.
+ *
+ * @module content.config
+ */
+
+import { defineCollection, reference, z } from "astro:content";
+import { file, glob } from "astro/loaders";
+import { RELEASE_TYPES, GALLERY_CATEGORIES, MUSICAL_MODES, SONG_SECTION_NAMES } from "./types";
+import { ASSET_PATHS, FIELD_LIMITS, STRUDEL_DEFAULTS } from "./constants";
+
+// =============================================================================
+// SHARED SCHEMAS
+// =============================================================================
+
+/** ISO 8601 date string (YYYY-MM-DD) */
+const isoDate = z
+	.string()
+	.regex(/^\d{4}-\d{2}-\d{2}$/, "must be in YYYY-MM-DD format")
+	.refine((value) => !Number.isNaN(new Date(value).getTime()), "is not a valid date");
+
+/** Cover art file name in `public/assets/images/releases/`, expanded to a full path */
+const releaseImage = z
+	.string()
+	.regex(/^[\w-]+\.(png|jpe?g|webp)$/, "must be a file name like new-song.png")
+	.transform((fileName) => `${ASSET_PATHS.RELEASES}/${fileName}`);
+
+const optionalUrl = z.string().url().optional();
+
+/** Audio file in `public/assets/audio/`, expanded to a full path */
+const songAudio = z.object({
+	src: z
+		.string()
+		.regex(/^[\w-]+\.(mp3|ogg)$/, "must be an MP3 or OGG file name like new-song.mp3")
+		.transform((fileName) => `${ASSET_PATHS.AUDIO}/${fileName}`),
+	/** A short preview rather than the full track */
+	preview: z.boolean().default(false),
+});
+
+/** Lyrics with optional LRC timestamps; checked line by line by `validateLyrics` */
+const songLyrics = z.object({
+	text: z.string().min(1),
+	romanized: z.string().min(1).optional(),
+});
+
+/**
+ * Key, meter and sections, all optional; whatever is left out is worked out
+ * from the pattern's chord stacks. Chords are checked against the key by
+ * `validateMusicalMetadata`.
+ */
+const songMusic = z.object({
+	key: z
+		.string()
+		.regex(/^[A-G][#b]?$/, "must be a note name like A, F# or Bb")
+		.optional(),
+	mode: z.enum(MUSICAL_MODES).optional(),
+	timeSignature: z
+		.string()
+		.regex(/^\d+\/(1|2|4|8|16)$/, "must be a time signature like 4/4 or 6/8")
+		.optional(),
+	sections: z
+		.array(
+			z.object({
+				name: z.enum(SONG_SECTION_NAMES),
+				bars: z.number().int().positive(),
+				chords: z.array(z.string().min(1)).min(1),
+			})
+		)
+		.min(1)
+		.optional(),
+});
+
+// =============================================================================
+// COLLECTIONS
+// =============================================================================
+
+/**
+ * Releases - one Markdown file per release in `src/content/releases/`
+ *
+ * The frontmatter mirrors `Release`; the Markdown body holds the long description.
+ */
+const releases = defineCollection({
+	loader: glob({ pattern: "**/*.md", base: "./src/content/releases" }),
+	schema: z.object({
+		title: z.string().min(1).max(FIELD_LIMITS.TITLE_MAX),
+		type: z.enum(RELEASE_TYPES),
+		description: z.string().max(FIELD_LIMITS.DESCRIPTION_MAX),
+		coverArt: releaseImage,
+		releaseDate: isoDate,
+		tracklist: z.array(reference("songs")).min(1),
+		pinnedLatest: z.boolean().optional(),
+		spotifyUrl: optionalUrl,
+		youtubeUrl: optionalUrl,
+		appleMusicUrl: optionalUrl,
+		soundcloudUrl: optionalUrl,
+		bandcampUrl: optionalUrl,
+	}),
+});
+
+/**
+ * Songs - one Markdown file per track in `src/content/songs/`
+ *
+ * Tracks with a Strudel `pattern` appear on the Play Along page; tracks
+ * with `audio` can be played in the site-wide audio player, and tracks
+ * with `music` (or chord stacks in their pattern) get a chord chart.
+ * Pattern-only tracks on no release (the old jam patterns, `jam-*.md`)
+ * need no `duration`; only the legacy `data/strudel-patterns` API serves them.
+ */
+const songs = defineCollection({
+	loader: glob({ pattern: "**/*.md", base: "./src/content/songs" }),
+	schema: z.object({
+		title: z.string().min(1).max(FIELD_LIMITS.TITLE_MAX),
+		description: z.string().max(FIELD_LIMITS.DESCRIPTION_MAX).optional(),
+		coverArt: releaseImage.optional(),
+		duration: z
+			.string()
+			.regex(/^\d+:[0-5]\d$/, "must be in m:ss format")
+			.optional(),
+		pattern: z.string().min(1).optional(),
+		bpm: z.number().min(STRUDEL_DEFAULTS.MIN_BPM).max(STRUDEL_DEFAULTS.MAX_BPM).optional(),
+		audio: songAudio.optional(),
+		lyrics: songLyrics.optional(),
+		music: songMusic.optional(),
+		spotifyUrl: optionalUrl,
+		youtubeUrl: optionalUrl,
+	}),
+});
+
+/**
+ * Band members - one Markdown file per member in `src/content/members/`
+ *
+ * The Markdown body is the member's bio.
+ */
+const members = defineCollection({
+	loader: glob({ pattern: "**/*.md", base: "./src/content/members" }),
+	schema: z.object({
+		name: z.string().min(1).max(FIELD_LIMITS.NAME_MAX),
+		role: z.string().min(1),
+		/** Position on the about page (lowest first) */
+		order: z.number().int(),
+		asciiArt: z.string(),
+		photo: z.string().optional(),
+		instruments: z.array(z.string()).optional(),
+		social: z
+			.object({
+				instagram: optionalUrl,
+				twitter: optionalUrl,
+				facebook: optionalUrl,
+				youtube: optionalUrl,
+				whatsapp: optionalUrl,
+			})
+			.optional(),
+	}),
+});
+
+/**
+ * News posts - one Markdown or MDX file per post in `src/content/posts/`
+ *
+ * The file name is the post's URL slug. MDX posts can use `<StrudelPlayer>`
+ * and `<ReleaseCard>` without importing them (see `pages/news/[id].astro`).
+ */
+const posts = defineCollection({
+	loader: glob({ pattern: "**/*.{md,mdx}", base: "./src/content/posts" }),
+	schema: z.object({
+		title: z.string().min(1).max(FIELD_LIMITS.TITLE_MAX),
+		description: z.string().min(1).max(FIELD_LIMITS.DESCRIPTION_MAX),
+		date: isoDate,
+		author: reference("members"),
+		tags: z
+			.array(z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "must be lowercase and hyphenated"))
+			.default([]),
+		coverImage: z.string().optional(),
+		/** Drafts are left out of the build */
+		draft: z.boolean().default(false),
+	}),
+});
+
+/**
+ * Gallery images - a single YAML list in `src/content/gallery.yaml`
+ */
+const gallery = defineCollection({
+	loader: file("src/content/gallery.yaml"),
+	schema: z.object({
+		src: z.string().url(),
+		alt: z.string().min(1),
+		category: z.enum(GALLERY_CATEGORIES),
+	}),
+});
+
+export const collections = { releases, songs, members, posts, gallery };
@@ -1,13 +1,16 @@
 /**
  * Band Members Data
  *
- * Contains all band member information including bios, instruments, and social links.
+ * Exposes band member information (bios, instruments, and social links)
+ * from the `members` content collection.
  * Data is validated at runtime in development mode.
  *
  * @module data/band-members
  */
 
+import { getCollection } from "astro:content";
 import type { BandMember, SocialLinks } from "../types";
+import { getMarkdownPlainText } from "../utils/markdown";
 import { validateBandMember, validateArray } from "../utils/validation";
 
 // =============================================================================
@@ -15,131 +18,27 @@ import { validateBandMember, validateArray } from "../utils/validation";
 // =============================================================================
 
 /**
- * All band members with their information
+ * All band members with their information, in about-page order
  *
  * @remarks
+ * Members live in `src/content/members/`, one Markdown file each.
  * When adding new members:
- * 1. Create a unique lowercase ID (used for routing/URLs)
+ * 1. Name the file with a unique lowercase ID (used for routing/URLs)
  * 2. Provide ASCII art for terminal-style display
  * 3. List all instruments played
  * 4. Add relevant social links
+ * 5. Write the bio as the Markdown body
+ *
+ * `bio` is the body as plain text, for search and structured data; pages
+ * render the Markdown itself with `render()`.
  */
-const bandMembersData: readonly BandMember[] = [
-	{
-		id: "reetwiz",
-		name: "Reetwiz",
-		role: "Guitar",
-		bio: "Riffs and textures. Finding the space where melody meets noise.",
-		asciiArt: `
-    ╔═══════╗
-    ║ ◉   ◉ ║
-    ║   ▽   ║
-    ║  ═══  ║
-    ╚═══════╝
-     ┌─────┐
-    ╱│     │╲
-   ╱ │ ♪ ♫ │ ╲`,
-		instruments: ["Guitar"],
-		social: {
-			instagram: "https://instagram.com/inzies",
-		},
-	},
-	{
-		id: "aadish",
-		name: "Aadish",
-		role: "Guitar",
-		bio: "Layers upon layers. Each string tells a different story.",
-		asciiArt: `
-    ╭───────╮
-    │ ●   ● │
-    │   ◡   │
-    │  ───  │
-    ╰───────╯
-      ┌───┐
-    ╔═╡   ╞═╗
-    ║ │ ∿∿ │ ║`,
-		instruments: ["Guitar"],
-		social: {
-			instagram: "https://instagram.com/inzies",
-		},
-	},
-	{
-		id: "biplob",
-		name: "Biplob",
-		role: "Keyboard",
-		bio: "Keys, pads, atmospheres. Building worlds one chord at a time.",
-		asciiArt: `
-    ┌───────┐
-    │ ○   ○ │
-    │   △   │
-    │  ───  │
-    └───────┘
-    ┌───────┐
-    │█▒█▒█▒█│
-    │▒█▒█▒█▒│`,
-		instruments: ["Keys", "Synth"],
-		social: {
-			instagram: "https://instagram.com/inzies",
-		},
-	},
-	{
-		id: "bibhushan",
-		name: "Bibhushan",
-		role: "Drums",
-		bio: "Patterns, fills, grooves. Finding the pocket and living there.",
-		asciiArt: `
-    ╔═══════╗
-    ║ ◎   ◎ ║
-    ║   ╥   ║
-    ║  ═══  ║
-    ╚═══════╝
-     ╭─╥─╥─╮
-    (●)│ │(●)
-     ╰─╨─╨─╯`,
-		instruments: ["Drums", "Percussion"],
-		social: {
-			instagram: "https://instagram.com/inzies",
-		},
-	},
-	{
-		id: "prasanna",
-		name: "Prasanna",
-		role: "Bass",
-		bio: "Low end foundation. Every song needs ground to stand on.",
-		asciiArt: `
-    ┌───────┐
-    │ ◇   ◇ │
-    │   ▿   │
-    │  ═══  │
-    └───────┘
-      │   │
-    ╔═╧═══╧═╗
-    ║ ≋≋≋≋≋ ║`,
-		instruments: ["Bass"],
-		social: {
-			instagram: "https://instagram.com/inzies",
-		},
-	},
-	{
-		id: "pratima",
-		name: "Pratima",
-		role: "Vocals",
-		bio: "Words and melodies. Turning feelings into frequencies.",
-		asciiArt: `
-    ╭───────╮
-    │ ★   ★ │
-    │   ◡   │
-    │  ◠◡◠  │
-    ╰───────╯
-      ╭───╮
-      │ ♪ │
-     ╱     ╲`,
-		instruments: ["Vocals"],
-		social: {
-			instagram: "https://instagram.com/inzies",
-		},
-	},
-] as const;
+const bandMembersData: readonly BandMember[] = (await getCollection("members"))
+	.sort((a, b) => a.data.order - b.data.order)
+	.map(({ id, data: { order: _order, ...member }, body }) => ({
+		id,
+		...member,
+		bio: getMarkdownPlainText(body ?? ""),
+	}));
 
 // =============================================================================
 // VALIDATION (Development Only)
@@ -0,0 +1,207 @@
+/**
+ * Music Catalog
+ *
+ * The single source of truth for the band's music: every release with its
+ * ordered tracklist, loaded from the `releases` and `songs` content collections.
+ * Releases, albums and Play Along songs are all derived from this catalog,
+ * so they can't drift apart.
+ *
+ * @module data/catalog
+ */
+
+import { getCollection, type CollectionEntry } from "astro:content";
+import type { Album, CatalogRelease, CatalogTrack, Release, Song } from "../types";
+import type { ValidationError } from "../utils/validation";
+import { STRUDEL_DEFAULTS } from "../constants";
+
+// =============================================================================
+// CATALOG DATA
+// =============================================================================
+
+const [releaseEntries, songEntries] = await Promise.all([
+	getCollection("releases"),
+	getCollection("songs"),
+]);
+
+/**
+ * Converts a song entry into a catalog track on a release
+ */
+function toCatalogTrack(entry: CollectionEntry<"songs">, releaseId: string): CatalogTrack {
+	const { duration, ...track } = entry.data;
+	if (duration === undefined) {
+		throw new Error(`Release "${releaseId}" lists song "${entry.id}" without a duration`);
+	}
+	return { id: entry.id, duration, ...track };
+}
+
+/**
+ * All releases with their tracklists, newest first
+ *
+ * @remarks
+ * Releases live in `src/content/releases/` and tracks in `src/content/songs/`.
+ * A release's `tracklist` lists song ids in order; the same song may appear
+ * on several releases (e.g. a single and its album). The newest release
+ * becomes "latest" automatically; set `pinnedLatest` to override.
+ */
+const catalogData: readonly CatalogRelease[] = releaseEntries
+	.map(({ id, data }) => ({
+		id,
+		...data,
+		tracklist: data.tracklist.map((ref) => {
+			const song = songEntries.find((entry) => entry.id === ref.id);
+			if (!song) {
+				throw new Error(`Release "${id}" lists unknown song "${ref.id}"`);
+			}
+			return toCatalogTrack(song, id);
+		}),
+	}))
+	.sort((a, b) => new Date(b.releaseDate).getTime() - new Date(a.releaseDate).getTime());
+
+// =============================================================================
+// VALIDATION (Development Only)
+// =============================================================================
+
+if (import.meta.env.DEV) {
+	const errors: ValidationError[] = [];
+
+	const pinnedIndexes = catalogData.flatMap((r, index) => (r.pinnedLatest ? [index] : []));
+	pinnedIndexes.slice(1).forEach((index) => {
+		errors.push({
+			field: `catalog[${index}].pinnedLatest`,
+			message: `only one release may be pinned as latest (already set on catalog[${pinnedIndexes[0]}])`,
+			value: true,
+		});
+	});
+
+	if (errors.length > 0) {
+		console.error("Catalog data validation errors:", errors);
+	}
+}
+
+// =============================================================================
+// EXPORTED DATA & DERIVATIONS
+// =============================================================================
+
+/**
+ * Immutable array of all catalog releases
+ */
+export const catalog: readonly CatalogRelease[] = catalogData;
+
+/**
+ * Gets a catalog release, with its full tracklist, by ID
+ *
+ * @param id - The unique release identifier
+ * @returns The catalog release if found, undefined otherwise
+ */
+export function getCatalogReleaseById(id: string): CatalogRelease | undefined {
+	return catalog.find((r) => r.id === id);
+}
+
+/**
+ * Gets the latest catalog release
+ *
+ * @param releases - The catalog releases to pick from
+ * @returns The pinned release if any, otherwise the one with the newest release date
+ */
+export function getLatestCatalogRelease(
+	releases: readonly CatalogRelease[] = catalog
+): CatalogRelease | undefined {
+	const pinned = releases.find((r) => r.pinnedLatest);
+	if (pinned) return pinned;
+
+	return releases.reduce<CatalogRelease | undefined>((latest, release) => {
+		if (!latest) return release;
+		return new Date(release.releaseDate).getTime() > new Date(latest.releaseDate).getTime()
+			? release
+			: latest;
+	}, undefined);
+}
+
+/**
+ * Derives the release list shown on the site from the catalog
+ *
+ * @param releases - The catalog releases
+ * @returns Releases in catalog order, with `tracks` and `isLatest` computed
+ */
+export function deriveReleases(releases: readonly CatalogRelease[] = catalog): readonly Release[] {
+	const latest = getLatestCatalogRelease(releases);
+
+	return releases.map(({ tracklist, pinnedLatest: _pinnedLatest, ...release }) => ({
+		...release,
+		...(release.type !== "single" && { tracks: tracklist.length }),
+		...(release.id === latest?.id && { isLatest: true }),
+	}));
+}
+
+/**
+ * Derives albums (album and EP releases) from the catalog
+ *
+ * @param releases - The catalog releases
+ * @returns Albums in catalog order, with `songs` listing their track ids
+ */
+export function deriveAlbums(releases: readonly CatalogRelease[] = catalog): readonly Album[] {
+	return releases
+		.filter((r) => r.type !== "single")
+		.map((release) => ({
+			id: release.id,
+			title: release.title,
+			type: release.type,
+			description: release.description,
+			coverArt: release.coverArt,
+			releaseDate: release.releaseDate,
+			songs: release.tracklist.map((t) => t.id),
+			spotifyUrl: release.spotifyUrl,
+			youtubeUrl: release.youtubeUrl,
+			appleMusicUrl: release.appleMusicUrl,
+		}));
+}
+
+/**
+ * A Play Along song before the fields generated from its pattern are filled in
+ */
+export type SongSource = Omit<Song, "strudelUrl" | "category" | "difficulty" | "music"> &
+	Pick<CatalogTrack, "music">;
+
+/**
+ * Derives Play Along songs from the catalog tracks that carry a Strudel pattern
+ *
+ * A track on several releases belongs to its album or EP, falling back to
+ * the first single it appears on.
+ *
+ * @param releases - The catalog releases
+ * @returns Songs in catalog and tracklist order, without the fields generated from `pattern`
+ */
+export function deriveSongs(releases: readonly CatalogRelease[] = catalog): readonly SongSource[] {
+	const seen = new Set<string>();
+	const owners = [
+		...releases.filter((r) => r.type !== "single"),
+		...releases.filter((r) => r.type === "single"),
+	];
+
+	return owners.flatMap((release) =>
+		release.tracklist.flatMap((track) => {
+			if (track.pattern === undefined || seen.has(track.id)) return [];
+			seen.add(track.id);
+
+			return [
+				{
+					id: track.id,
+					title: track.title,
+					album: release.title,
+					albumId: release.id,
+					description: track.description ?? release.description,
+					coverArt: track.coverArt ?? release.coverArt,
+					pattern: track.pattern,
+					bpm: track.bpm ?? STRUDEL_DEFAULTS.DEFAULT_BPM,
+					duration: track.duration,
+					releaseDate: release.releaseDate,
+					spotifyUrl: track.spotifyUrl,
+					youtubeUrl: track.youtubeUrl,
+					audio: track.audio,
+					lyrics: track.lyrics,
+					music: track.music,
+				},
+			];
+		})
+	);
+}
@@ -0,0 +1,131 @@
+/**
+ * Feeds
+ *
+ * Entries for the RSS, Atom and JSON feeds served by `pages/rss.xml.ts`,
+ * `pages/atom.xml.ts` and `pages/feed.json.ts`. Each new release is an
+ * entry with its cover art as the enclosure and its streaming links;
+ * news posts are merged in by date, credited to the band member who wrote them.
+ *
+ * @module data/feed
+ */
+
+import { statSync } from "node:fs";
+import { extname, join } from "node:path";
+import type { FeedEnclosure, FeedItem, Post, Release } from "../types";
+import { BASE_PATH, ROUTES } from "../constants";
+import { siteConfig } from "../config";
+import { buildFeedContent, type FeedChannel } from "../utils/feed";
+import { getReleasesSortedByDate, getStreamingLinks } from "./releases";
+import { getMemberById } from "./band-members";
+import { posts } from "./posts";
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const IMAGE_TYPES: Readonly<Record<string, string>> = {
+	".png": "image/png",
+	".jpg": "image/jpeg",
+	".jpeg": "image/jpeg",
+	".webp": "image/webp",
+	".avif": "image/avif",
+	".gif": "image/gif",
+};
+
+/**
+ * Resolves a site path, e.g. `ROUTES.release("single-asha")`, to an absolute URL
+ */
+function absoluteUrl(path: string): string {
+	return new URL(path, siteConfig.siteURL).href;
+}
+
+/**
+ * Describes an image in `public/` as an enclosure
+ *
+ * @returns Undefined for images hosted elsewhere, which have no known size
+ */
+function getImageEnclosure(path: string): FeedEnclosure | undefined {
+	const type = IMAGE_TYPES[extname(path).toLowerCase()];
+	if (!type || !path.startsWith(`${BASE_PATH}/`)) return undefined;
+	const file = join(process.cwd(), "public", path.slice(BASE_PATH.length));
+	return { url: absoluteUrl(path), type, length: statSync(file).size };
+}
+
+/**
+ * Builds a release's feed entry
+ */
+function buildReleaseFeedItem(release: Release): FeedItem {
+	const enclosure = getImageEnclosure(release.coverArt);
+	const links = getStreamingLinks(release).map(({ platform, url }) => ({ title: platform, url }));
+	return {
+		kind: "release",
+		title: `New ${release.type}: ${release.title}`,
+		url: absoluteUrl(ROUTES.release(release.id)),
+		summary: release.description,
+		contentHtml: buildFeedContent({
+			image: { url: absoluteUrl(release.coverArt), alt: `${release.title} cover art` },
+			text: release.description,
+			links,
+		}),
+		date: release.releaseDate,
+		...(enclosure && { enclosure }),
+		links,
+		categories: [release.type],
+	};
+}
+
+/**
+ * Builds a news post's feed entry
+ */
+function buildPostFeedItem(post: Post): FeedItem {
+	const enclosure = post.coverImage ? getImageEnclosure(post.coverImage) : undefined;
+	const author = getMemberById(post.author);
+	return {
+		kind: "post",
+		title: post.title,
+		url: absoluteUrl(ROUTES.post(post.id)),
+		summary: post.description,
+		contentHtml: buildFeedContent({
+			...(post.coverImage && { image: { url: absoluteUrl(post.coverImage), alt: "" } }),
+			text: post.description,
+			links: [],
+		}),
+		date: post.date,
+		...(enclosure && { enclosure }),
+		...(author && { author: { name: author.name, url: absoluteUrl(ROUTES.member(author.id)) } }),
+		links: [],
+		categories: post.tags,
+	};
+}
+
+// =============================================================================
+// FEEDS
+// =============================================================================
+
+/**
+ * The feeds' own details
+ */
+export const feedChannel: FeedChannel = {
+	title: siteConfig.title,
+	description: siteConfig.description || `${siteConfig.title} - ${siteConfig.subtitle}`,
+	siteUrl: siteConfig.siteURL,
+	language: siteConfig.lang,
+	icon: absoluteUrl(`${BASE_PATH}/favicon.png`),
+	feedUrls: {
+		rss: absoluteUrl(ROUTES.rss),
+		atom: absoluteUrl(ROUTES.atom),
+		json: absoluteUrl(ROUTES.jsonFeed),
+	},
+};
+
+/**
+ * Every feed entry, newest first
+ *
+ * @remarks
+ * Releases and posts are merged here, so all three feeds list
+ * everything in date order.
+ */
+export const feedItems: readonly FeedItem[] = [
+	...getReleasesSortedByDate("desc").map(buildReleaseFeedItem),
+	...posts.map(buildPostFeedItem),
+].sort((a, b) => b.date.localeCompare(a.date));
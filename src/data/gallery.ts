@@ -0,0 +1,45 @@
+/**
+ * Gallery Data
+ *
+ * Exposes gallery photos from the `gallery` content collection.
+ *
+ * @module data/gallery
+ */
+
+import { getCollection } from "astro:content";
+import type { GalleryCategory, GalleryImage } from "../types";
+
+// =============================================================================
+// GALLERY DATA
+// =============================================================================
+
+/**
+ * All gallery images, in the order listed in `src/content/gallery.yaml`
+ */
+const galleryImagesData: readonly GalleryImage[] = (await getCollection("gallery")).map(
+	({ id, data }) => ({ id, ...data })
+);
+
+// =============================================================================
+// EXPORTED DATA & HELPERS
+// =============================================================================
+
+/**
+ * Immutable array of all gallery images
+ */
+export const galleryImages: readonly GalleryImage[] = galleryImagesData;
+
+/**
+ * Filters gallery images by category
+ *
+ * @param category - The category to filter by
+ * @returns Array of images in the specified category
+ *
+ * @example
+ * ```ts
+ * const livePhotos = getGalleryImagesByCategory("live");
+ * ```
+ */
+export function getGalleryImagesByCategory(category: GalleryCategory): readonly GalleryImage[] {
+	return galleryImages.filter((image) => image.category === category);
+}
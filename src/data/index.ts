@@ -2,18 +2,23 @@
  * Data Modules Index
  *
  * Re-exports all data modules for convenient importing.
- * Use this to access releases, band members, and patterns.
+ * Use this to access releases, songs, band members, news posts and gallery images.
+ * `strudel-patterns` is a deprecated adapter over songs, kept for old imports.
  *
  * @module data
  *
  * @example
  * ```ts
- * import { releases, bandMembers, strudelPatterns } from "@data";
+ * import { releases, bandMembers, songs } from "@data";
  * // or
  * import { getLatestRelease, getMemberById } from "@data";
  * ```
  */
 
 export * from "./releases";
+export * from "./songs";
 export * from "./band-members";
 export * from "./strudel-patterns";
+export * from "./gallery";
+export * from "./posts";
+export * from "./search";
@@ -0,0 +1,121 @@
+/**
+ * Open Graph Cards
+ *
+ * One social preview card per page, release, song, band member and post. Served
+ * as PNGs by `pages/og/[...slug].png.ts`; `Layout` points each page's
+ * `og:image` at its card.
+ *
+ * @module data/og-cards
+ */
+
+import type { OgCard } from "../types";
+import { ASSET_PATHS, ROUTES } from "../constants";
+import { siteConfig } from "../config";
+import { releases } from "./releases";
+import { songs } from "./songs";
+import { bandMembers, getMemberById } from "./band-members";
+import { posts } from "./posts";
+
+// =============================================================================
+// OPEN GRAPH CARDS
+// =============================================================================
+
+/** Square logo shown on the cards of top-level pages */
+const PAGE_IMAGE = `${ASSET_PATHS.LOGOS}/logo-with-black-bg.png`;
+
+/** Top-level pages, with the descriptions they give `MainLayout` */
+const pageCards: readonly OgCard[] = [
+	{ slug: "index", url: ROUTES.home, title: siteConfig.title, subtitle: siteConfig.subtitle },
+	{ slug: "about", url: ROUTES.about, title: "About", subtitle: "Meet the band." },
+	{
+		slug: "music",
+		url: ROUTES.music,
+		title: "Music",
+		subtitle: "Our releases and where to stream them.",
+	},
+	{
+		slug: "play",
+		url: ROUTES.play,
+		title: "Play Along",
+		subtitle: "Play our songs in your browser with Strudel.",
+	},
+	{
+		slug: "gallery",
+		url: ROUTES.gallery,
+		title: "Gallery",
+		subtitle: "Photos from shows, studio sessions, and behind the scenes.",
+	},
+	{
+		slug: "news",
+		url: ROUTES.news,
+		title: "News",
+		subtitle: "Tour updates, studio diaries and Strudel tutorials from the band.",
+	},
+	{
+		slug: "search",
+		url: ROUTES.search,
+		title: "Search",
+		subtitle: "Search our songs, lyrics, releases and news.",
+	},
+].map((page) => ({ kind: "page", ...page, coverArt: PAGE_IMAGE }));
+
+/**
+ * Every card: top-level pages first (the home page card is the site's
+ * default), then releases, songs, band members and posts
+ *
+ * @remarks
+ * Songs have no page of their own, so a song's card previews its chord
+ * chart when it has one.
+ */
+export const ogCards: readonly OgCard[] = [
+	...pageCards,
+	...releases.map((release) => ({
+		kind: "release" as const,
+		slug: `music/${release.id}`,
+		url: ROUTES.release(release.id),
+		title: release.title,
+		subtitle: `${release.type} · ${release.releaseDate.slice(0, 4)}`,
+		coverArt: release.coverArt,
+	})),
+	...songs.map((song) => ({
+		kind: "song" as const,
+		slug: `songs/${song.id}`,
+		url: song.music?.sections.length ? ROUTES.chords(song.id) : ROUTES.playSong(song.id),
+		title: song.title,
+		subtitle: `${song.album} · ${song.bpm} BPM`,
+		coverArt: song.coverArt,
+		code: song.pattern,
+	})),
+	...bandMembers.map((member) => ({
+		kind: "member" as const,
+		slug: `about/${member.id}`,
+		url: ROUTES.member(member.id),
+		title: member.name,
+		subtitle: member.role,
+		coverArt: member.photo,
+		code: member.asciiArt,
+	})),
+	...posts.map((post) => ({
+		kind: "post" as const,
+		slug: `news/${post.id}`,
+		url: ROUTES.post(post.id),
+		title: post.title,
+		subtitle: `${getMemberById(post.author)?.name ?? post.author} · ${post.readingTime} min read`,
+		coverArt: post.coverImage ?? PAGE_IMAGE,
+	})),
+];
+
+/**
+ * Gets the card for a page
+ *
+ * @param pathname - The page's path, e.g. "/inzies/music/single-asha/"
+ * @returns The page's card, or the site's default card
+ *
+ * @example
+ * ```ts
+ * getOgCard(Astro.url.pathname);
+ * ```
+ */
+export function getOgCard(pathname: string): OgCard {
+	return ogCards.find((card) => card.url === pathname) ?? ogCards[0];
+}
@@ -0,0 +1,122 @@
+/**
+ * News Posts Data
+ *
+ * Exposes tour updates, studio diaries and Strudel tutorials from the
+ * `posts` content collection, newest first, with their reading times.
+ * Data is validated at runtime in development mode.
+ *
+ * @module data/posts
+ */
+
+import { getCollection } from "astro:content";
+import type { Post } from "../types";
+import { getReadingTime, getTagCounts } from "../utils/posts";
+import { validatePost, validateArray } from "../utils/validation";
+import { bandMembers } from "./band-members";
+
+// =============================================================================
+// POST DATA
+// =============================================================================
+
+/**
+ * All published posts, newest first
+ *
+ * @remarks
+ * Posts live in `src/content/posts/`, one Markdown or MDX file each.
+ * When adding new posts:
+ * 1. Name the file with a unique lowercase ID (used for routing/URLs)
+ * 2. Set `author` to the writer's band member ID
+ * 3. Reuse existing tags where they fit, so tag pages stay useful
+ * 4. Set `draft: true` to preview a post in `astro dev` only
+ */
+const postsData: readonly Post[] = (
+	await getCollection("posts", ({ data }) => import.meta.env.DEV || !data.draft)
+)
+	.map(({ id, data: { author, draft: _draft, ...post }, body }) => ({
+		id,
+		...post,
+		author: author.id,
+		readingTime: getReadingTime(body ?? ""),
+	}))
+	.sort((a, b) => b.date.localeCompare(a.date) || a.title.localeCompare(b.title));
+
+// =============================================================================
+// VALIDATION (Development Only)
+// =============================================================================
+
+if (import.meta.env.DEV) {
+	const errors = validateArray(
+		postsData as unknown[],
+		(post) => validatePost(post, { members: bandMembers }),
+		"posts"
+	);
+	if (errors.length > 0) {
+		console.error("Post data validation errors:", errors);
+	}
+}
+
+// =============================================================================
+// EXPORTED DATA & HELPERS
+// =============================================================================
+
+/**
+ * Immutable array of all posts, newest first
+ */
+export const posts: readonly Post[] = postsData;
+
+/**
+ * Every tag in use, most used first
+ */
+export const postTags: readonly { tag: string; count: number }[] = getTagCounts(posts);
+
+/**
+ * Gets a post by its ID
+ *
+ * @param id - The unique post identifier
+ * @returns The post if found, undefined otherwise
+ *
+ * @example
+ * ```ts
+ * const post = getPostById("studio-diary-rahar");
+ * ```
+ */
+export function getPostById(id: string): Post | undefined {
+	return posts.find((p) => p.id === id);
+}
+
+/**
+ * Gets the posts with a tag
+ *
+ * @param tag - The tag to filter by, e.g. "strudel"
+ * @returns Posts with the tag, newest first
+ */
+export function getPostsByTag(tag: string): readonly Post[] {
+	return posts.filter((p) => p.tags.includes(tag));
+}
+
+/**
+ * Gets the posts a band member wrote
+ *
+ * @param memberId - The author's band member ID
+ * @returns Their posts, newest first
+ */
+export function getPostsByAuthor(memberId: string): readonly Post[] {
+	return posts.filter((p) => p.author === memberId);
+}
+
+/**
+ * Gets the posts either side of a post
+ *
+ * @param id - The post's ID
+ * @returns The next newer and next older posts, where there are any
+ *
+ * @example
+ * ```ts
+ * const { newer, older } = getAdjacentPosts(post.id);
+ * ```
+ */
+export function getAdjacentPosts(id: string): { newer?: Post; older?: Post } {
+	const index = posts.findIndex((p) => p.id === id);
+	if (index === -1) return {};
+	return { newer: posts[index - 1], older: posts[index + 1] };
+}
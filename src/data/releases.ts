@@ -1,7 +1,7 @@
 /**
  * Music Releases Data
  *
- * Contains all music release information for the band.
+ * Exposes the music releases derived from the catalog.
  * Data is validated at runtime in development mode.
  *
  * @module data/releases
@@ -9,69 +9,21 @@
 
 import type { Release, ReleaseType } from "../types";
 import { validateRelease, validateArray } from "../utils/validation";
-import { ASSET_PATHS } from "../constants";
+import { catalog, deriveReleases } from "./catalog";
 
 // =============================================================================
 // RELEASE DATA
 // =============================================================================
 
 /**
- * All music releases, ordered by release date (newest first)
+ * All music releases, derived from the catalog
  *
  * @remarks
- * When adding new releases:
- * 1. Add to the beginning of the array (newest first)
- * 2. Set `isLatest: true` on the newest release
- * 3. Remove `isLatest` from the previous latest release
- * 4. Use ISO 8601 date format (YYYY-MM-DD)
- * 5. Ensure cover art exists at the specified path
+ * Releases are edited in `src/content/releases/`, one Markdown file each,
+ * and loaded through `data/catalog`. `tracks` is counted from each
+ * tracklist and `isLatest` is set on the newest (or pinned) release.
  */
-const releasesData: readonly Release[] = [
-	{
-		id: "single-asha",
-		title: "Asha",
-		type: "single",
-		description: "A track about reminiscence and hope. The first glimpse of what was to come.",
-		coverArt: `${ASSET_PATHS.RELEASES}/asha.png`,
-		releaseDate: "2025-01-01",
-		spotifyUrl: "https://open.spotify.com/track/asha",
-		youtubeUrl: "https://youtube.com/watch?v=asha",
-		isLatest: true,
-	},
-	{
-		id: "album-self-titled",
-		title: "Self-Titled",
-		type: "album",
-		description:
-			"Our debut album. Three years of writing, recording, and figuring out who we are. Features Asha, K Ka Lagi, and Rahar.",
-		coverArt: `${ASSET_PATHS.RELEASES}/self-titled.png`,
-		releaseDate: "2025-01-15",
-		tracks: 3,
-		spotifyUrl: "https://open.spotify.com/album/inzies-self-titled",
-		youtubeUrl: "https://youtube.com/playlist?list=inzies-self-titled",
-	},
-	{
-		id: "single-k-ka-lagi",
-		title: "K Ka Lagi",
-		type: "single",
-		description: "An emotional journey asking the questions we're afraid to answer.",
-		coverArt: `${ASSET_PATHS.RELEASES}/k-ka-lagi.png`,
-		releaseDate: "2024-11-15",
-		spotifyUrl: "https://open.spotify.com/track/k-ka-lagi",
-		youtubeUrl: "https://youtube.com/watch?v=k-ka-lagi",
-	},
-	{
-		id: "single-rahar",
-		title: "Rahar",
-		type: "single",
-		description:
-			"A song about desire and longing. The push and pull between what we want and what we have.",
-		coverArt: `${ASSET_PATHS.RELEASES}/rahar.png`,
-		releaseDate: "2024-09-01",
-		spotifyUrl: "https://open.spotify.com/track/rahar",
-		youtubeUrl: "https://youtube.com/watch?v=rahar",
-	},
-] as const;
+const releasesData: readonly Release[] = deriveReleases(catalog);
 
 // =============================================================================
 // VALIDATION (Development Only)
@@ -94,7 +46,7 @@ if (import.meta.env.DEV) {
 export const releases: readonly Release[] = releasesData;
 
 /**
- * Gets the latest release (marked with `isLatest: true` or first in array)
+ * Gets the latest release (the pinned or newest release, marked with `isLatest: true`)
  *
  * @returns The latest release, or undefined if no releases exist
  *
@@ -200,27 +152,52 @@ export function hasStreamingLinks(release: Release): boolean {
  * Gets all available streaming links for a release
  *
  * @param release - The release to get links for
- * @returns Array of link objects with platform name and URL
+ * @returns Array of link objects with platform name, URL, brand color and icon
  */
 export function getStreamingLinks(
 	release: Release
-): readonly { platform: string; url: string; color: string }[] {
-	const links: { platform: string; url: string; color: string }[] = [];
+): readonly { platform: string; url: string; color: string; icon: string }[] {
+	const links: { platform: string; url: string; color: string; icon: string }[] = [];
 
 	if (release.spotifyUrl) {
-		links.push({ platform: "Spotify", url: release.spotifyUrl, color: "#1DB954" });
+		links.push({
+			platform: "Spotify",
+			url: release.spotifyUrl,
+			color: "#1DB954",
+			icon: "fa6-brands:spotify",
+		});
 	}
 	if (release.youtubeUrl) {
-		links.push({ platform: "YouTube", url: release.youtubeUrl, color: "#FF0000" });
+		links.push({
+			platform: "YouTube",
+			url: release.youtubeUrl,
+			color: "#FF0000",
+			icon: "fa6-brands:youtube",
+		});
 	}
 	if (release.appleMusicUrl) {
-		links.push({ platform: "Apple Music", url: release.appleMusicUrl, color: "#FC3C44" });
+		links.push({
+			platform: "Apple Music",
+			url: release.appleMusicUrl,
+			color: "#FC3C44",
+			icon: "fa6-brands:apple",
+		});
 	}
 	if (release.soundcloudUrl) {
-		links.push({ platform: "SoundCloud", url: release.soundcloudUrl, color: "#FF5500" });
+		links.push({
+			platform: "SoundCloud",
+			url: release.soundcloudUrl,
+			color: "#FF5500",
+			icon: "fa6-brands:soundcloud",
+		});
 	}
 	if (release.bandcampUrl) {
-		links.push({ platform: "Bandcamp", url: release.bandcampUrl, color: "#629AA9" });
+		links.push({
+			platform: "Bandcamp",
+			url: release.bandcampUrl,
+			color: "#629AA9",
+			icon: "fa6-brands:bandcamp",
+		});
 	}
 
 	return links;
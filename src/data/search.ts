@@ -0,0 +1,54 @@
+/**
+ * Site Search Index
+ *
+ * Flattens releases, songs, band members and news posts into plain-text
+ * entries for site search. Songs include their lyrics in both Nepali
+ * script and romanized form, so either spelling finds them. Served as
+ * JSON by `pages/search-index.json.ts` for the search page.
+ *
+ * @module data/search
+ */
+
+import type { SearchEntry } from "../types";
+import { ROUTES } from "../constants";
+import { getLyricsPlainText } from "../utils/lyrics";
+import { releases } from "./releases";
+import { songs } from "./songs";
+import { bandMembers } from "./band-members";
+import { posts } from "./posts";
+
+// =============================================================================
+// SEARCH INDEX
+// =============================================================================
+
+/**
+ * Every searchable page: releases, then songs, then band members, then posts
+ */
+export const searchIndex: readonly SearchEntry[] = [
+	...releases.map((release) => ({
+		kind: "release" as const,
+		title: release.title,
+		url: ROUTES.release(release.id),
+		text: release.description,
+	})),
+	...songs.map((song) => ({
+		kind: "song" as const,
+		title: song.title,
+		url: ROUTES.playSong(song.id),
+		text: [song.album, song.description, song.lyrics && getLyricsPlainText(song.lyrics)]
+			.filter(Boolean)
+			.join("\n"),
+	})),
+	...bandMembers.map((member) => ({
+		kind: "member" as const,
+		title: member.name,
+		url: ROUTES.member(member.id),
+		text: [member.role, member.bio].join("\n"),
+	})),
+	...posts.map((post) => ({
+		kind: "post" as const,
+		title: post.title,
+		url: ROUTES.post(post.id),
+		text: [post.description, ...post.tags].join("\n"),
+	})),
+];
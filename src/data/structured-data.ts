@@ -0,0 +1,110 @@
+/**
+ * Structured Data
+ *
+ * schema.org JSON-LD for the band, its releases, songs and members, built
+ * with `utils/structured-data`. Pages pass it to `Layout` as `structuredData`.
+ * The output is checked against the schema.org vocabulary in development.
+ *
+ * @module data/structured-data
+ */
+
+import type {
+	BandMember,
+	MusicAlbumJsonLd,
+	MusicGroupJsonLd,
+	MusicRecordingJsonLd,
+	PersonJsonLd,
+	Release,
+	Song,
+} from "../types";
+import { ASSET_PATHS } from "../constants";
+import { siteConfig } from "../config";
+import {
+	buildMusicAlbum,
+	buildMusicGroup,
+	buildMusicRecording,
+	buildPerson,
+	serializeJsonLd,
+	type JsonLdSite,
+} from "../utils/structured-data";
+import { validateStructuredData } from "../utils/validation";
+import { getCatalogReleaseById } from "./catalog";
+import { releases } from "./releases";
+import { songs } from "./songs";
+import { bandMembers } from "./band-members";
+
+// =============================================================================
+// STRUCTURED DATA
+// =============================================================================
+
+const site: JsonLdSite = { name: siteConfig.title, url: siteConfig.siteURL };
+
+/**
+ * The band, with its members and releases, for the home and about pages
+ */
+export const bandJsonLd: MusicGroupJsonLd = buildMusicGroup(site, {
+	description: siteConfig.description || `${siteConfig.title} - ${siteConfig.subtitle}`,
+	logo: `${ASSET_PATHS.LOGOS}/logo-with-black-bg.png`,
+	// Profiles only: email and WhatsApp are ways to get in touch
+	sameAs: Object.entries(siteConfig.social)
+		.filter(([platform, url]) => url && platform !== "email" && platform !== "whatsapp")
+		.map(([, url]) => url as string),
+	members: bandMembers,
+	releases,
+});
+
+/**
+ * Gets a release's JSON-LD, with its full tracklist
+ *
+ * @param release - The release
+ * @returns The release's `MusicAlbum`
+ */
+export function getReleaseJsonLd(release: Release): MusicAlbumJsonLd {
+	return buildMusicAlbum(release, getCatalogReleaseById(release.id)?.tracklist ?? [], site);
+}
+
+/**
+ * Gets a song's JSON-LD, on the release it belongs to
+ *
+ * @param song - The song
+ * @returns The song's `MusicRecording`
+ */
+export function getSongJsonLd(song: Song): MusicRecordingJsonLd {
+	const release = {
+		id: song.albumId,
+		title: song.album,
+		releaseDate: song.releaseDate,
+		coverArt: song.coverArt,
+	};
+	return buildMusicRecording(song, release, site);
+}
+
+/**
+ * Gets a band member's JSON-LD
+ *
+ * @param member - The band member
+ * @returns The member's `Person`
+ */
+export function getMemberJsonLd(member: BandMember): PersonJsonLd {
+	return buildPerson(member, site);
+}
+
+// =============================================================================
+// VALIDATION (Development Only)
+// =============================================================================
+
+if (import.meta.env.DEV) {
+	// Validate what pages publish: the serialized documents
+	const documents = [
+		bandJsonLd,
+		...releases.map(getReleaseJsonLd),
+		...songs.map(getSongJsonLd),
+		...bandMembers.map(getMemberJsonLd),
+	];
+	const errors = documents.flatMap((node) =>
+		validateStructuredData(JSON.parse(serializeJsonLd(node)), `${node["@type"]} ${node.name}`)
+	);
+	if (errors.length > 0) {
+		console.error("Structured data validation errors:", errors);
+	}
+}
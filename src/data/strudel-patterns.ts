@@ -1,128 +1,105 @@
 /**
- * Strudel.cc Patterns Data
+ * Legacy Strudel Patterns API
  *
- * Contains interactive music patterns for the Strudel.cc live coding platform.
- * Data is validated at runtime in development mode.
+ * Compatibility adapter for code written against the old `StrudelPattern`
+ * data. Every export here is served from the songs collection, so there is
+ * only one pattern type to maintain: {@link Song}. The old jam patterns are
+ * pattern-only tracks there and keep their `pattern-1`…`pattern-5` ids.
+ * Using any export logs a one-time warning in development pointing at its
+ * replacement.
  *
  * @module data/strudel-patterns
+ * @deprecated Use the song helpers from `data/songs` instead
  */
 
-import type { StrudelPattern, PatternCategory, DifficultyLevel } from "../types";
-import { validateStrudelPattern, validateArray } from "../utils/validation";
+import { getCollection } from "astro:content";
+import type { Song, StrudelPattern, PatternCategory, DifficultyLevel } from "../types";
 import { STRUDEL_DEFAULTS } from "../constants";
+import { withStrudelUrl } from "../utils/strudel";
+import { withPatternAnalysis } from "../utils/pattern-analysis";
+import { validateStrudelPattern, validateArray } from "../utils/validation";
+import { songs } from "./songs";
 
 // =============================================================================
-// PATTERN DATA
+// ADAPTER
 // =============================================================================
 
+/** Legacy exports already warned about, so each warns only once */
+const warnedExports = new Set<string>();
+
 /**
- * All Strudel patterns available for the Play Along page
- *
- * @remarks
- * When adding new patterns:
- * 1. Create a unique ID prefixed with "pattern-"
- * 2. Test the pattern on strudel.cc before adding
- * 3. Set appropriate BPM (20-300 range)
- * 4. Choose correct category and difficulty
- * 5. Write a descriptive but concise description
+ * Logs a one-time development warning for a legacy export
+ */
+function warnLegacy(name: string, replacement: string): void {
+	if (!import.meta.env.DEV || warnedExports.has(name)) return;
+	warnedExports.add(name);
+	console.warn(`[data/strudel-patterns] ${name} is deprecated; use ${replacement} instead.`);
+}
+
+/**
+ * Converts a song to the legacy pattern shape
+ */
+function toStrudelPattern(song: Song): StrudelPattern {
+	const { id, title, description, pattern, strudelUrl, bpm, category, difficulty } = song;
+	return { id, title, description, pattern, strudelUrl, bpm, category, difficulty };
+}
+
+/**
+ * Old jam pattern ids and the pattern-only tracks in `src/content/songs/` they moved to
  */
+const LEGACY_PATTERN_TRACKS: Readonly<Record<string, string>> = {
+	"pattern-1": "jam-asha-groove",
+	"pattern-2": "jam-late-night",
+	"pattern-3": "jam-deep-end",
+	"pattern-4": "jam-breakdown",
+	"pattern-5": "jam-drift",
+};
+
+const songEntries = await getCollection("songs");
+
+/**
+ * The jam patterns under their old ids and in their old order, with share
+ * URLs, categories and difficulties generated from their code as before
+ */
+const jamPatterns: readonly StrudelPattern[] = Object.entries(LEGACY_PATTERN_TRACKS).flatMap(
+	([legacyId, trackId]) => {
+		const track = songEntries.find((entry) => entry.id === trackId)?.data;
+		if (track?.pattern === undefined) return [];
+		return [
+			withPatternAnalysis(
+				withStrudelUrl({
+					id: legacyId,
+					title: track.title,
+					description: track.description ?? "",
+					pattern: track.pattern,
+					bpm: track.bpm ?? STRUDEL_DEFAULTS.DEFAULT_BPM,
+				})
+			),
+		];
+	}
+);
+
+/** The jam patterns, then every song */
 const strudelPatternsData: readonly StrudelPattern[] = [
-	{
-		id: "pattern-1",
-		title: "Asha",
-		description: "The backbone – a solid groove to build on",
-		pattern: `stack(
-  s("bd*2 bd bd*2 bd"),
-  s("~ sd ~ sd"),
-  s("hh*8")
-).slow(4)`,
-		strudelUrl:
-			"https://strudel.cc/#c3RhY2soCiAgcygiYmQqMiBiZCBiZCoyIGJkIiksCiAgcygiJnN1cDsgc2QgJnN1cDsgc2QiKSwKICBzKCJoaCo4IikKKS5zbG93KDQp",
-		bpm: 120,
-		category: "drums",
-		difficulty: "beginner",
-	},
-	{
-		id: "pattern-2",
-		title: "Late Night",
-		description: "Syncopated, moody, best at 2am",
-		pattern: `stack(
-  s("bd ~ [~ bd] ~ bd ~ [bd bd] ~"),
-  s("~ sd ~ [sd sd:1] ~ sd ~ sd"),
-  s("hh*16").gain(0.6),
-  s("~ ~ ~ ~ ~ ~ oh ~").gain(0.4)
-).slow(2)`,
-		strudelUrl:
-			"https://strudel.cc/#c3RhY2soCiAgcygiYmQgfiBbfiBiZF0gfiBiZCB%2BIFtiZCBiZF0gfiIpLAogIHMoIn4gc2QgfiBbc2Qgc2Q6MV0gfiBzZCB%2BIHNkIiksCiAgcygiaGgqMTYiKS5nYWluKDAuNiksCiAgcygiAG4gfiB%2BIH4gfiB%2BIG9oIH4iKS5nYWluKDAuNCkKKS5zbG93KDIp",
-		bpm: 95,
-		category: "drums",
-		difficulty: "intermediate",
-	},
-	{
-		id: "pattern-3",
-		title: "Deep End",
-		description: "Heavy bass, minimal movement",
-		pattern: `note("c2 ~ e2 ~ g2 ~ e2 c2")
-  .s("sawtooth")
-  .lpf(800)
-  .decay(0.2)
-  .sustain(0.3)
-  .slow(2)`,
-		strudelUrl:
-			"https://strudel.cc/#bm90ZSgiYzIgfiBODIgIGcyIH4gZTIgYzIiKQogIC5zKCJzYXd0b290aCIpCiAgLmxwZig4MDApCiAgLmRlY2F5KDAuMikKICAuc3VzdGFpbigwLjMpCiAgLnNsb3coMik%3D",
-		bpm: 110,
-		category: "bass",
-		difficulty: "beginner",
-	},
-	{
-		id: "pattern-4",
-		title: "Breakdown",
-		description: "When intensity builds to release",
-		pattern: `stack(
-  s("bd:3*2 [bd:3 bd:3] bd:3 [~ bd:3]").gain(0.9),
-  s("~ sd:2 ~ sd:2").gain(0.8),
-  s("[hh:2 hh:2]*4 [hh:2 oh:1]").gain(0.5),
-  note("c3 c3 eb3 g3").s("square").lpf(600).gain(0.4)
-).slow(2)`,
-		strudelUrl:
-			"https://strudel.cc/#c3RhY2soCiAgcygiYmQ6MyoyIFtiZDozIGJkOjNdIGJkOjMgW34gYmQ6M10iKS5nYWluKDAuOSksCiAgcygifiDhcDoyIH4gc2Q6MiIpLmdhaW4oMC44KSwKICBzKCJbaGg6MiBoaDoyXSo0IFtoaDoyIG9oOjFdIikuZ2FpbigwLjUpLAogIG5vdGUoImMzIGMzIGViMyBnMyIpLnMoInNxdWFyZSIpLmxwZig2MDApLmdhaW4oMC40KQopLnNsb3coMik%3D",
-		bpm: 140,
-		category: "full",
-		difficulty: "advanced",
-	},
-	{
-		id: "pattern-5",
-		title: "Drift",
-		description: "Atmospheric, floating, focus mode",
-		pattern: `stack(
-  note("c4 e4 g4 b4".slow(4))
-    .s("sine")
-    .decay(2)
-    .sustain(0.5)
-    .gain(0.3),
-  note("c3".slow(8))
-    .s("triangle")
-    .lpf(400)
-    .gain(0.2)
-).slow(2)`,
-		strudelUrl:
-			"https://strudel.cc/#c3RhY2soCiAgbm90ZSgiYzQgZTQgZzQgYjQiLnNsb3coNCkpCiAgICAucygic2luZSIpCiAgICAuZGVjYXkoMikKICAgIC5zdXN0YWluKDAuNSkKICAgIC5nYWluKDAuMyksCiAgbm90ZSgiYzMiLnNsb3coOCkpCiAgICAucygidHJpYW5nbGUiKQogICAgLmxwZig0MDApCiAgICAuZ2FpbigwLjIpCikuc2xvdygyKQ%3D%3D",
-		bpm: 70,
-		category: "melody",
-		difficulty: "beginner",
-	},
-] as const;
+	...jamPatterns,
+	...songs.map(toStrudelPattern),
+];
 
 // =============================================================================
 // VALIDATION (Development Only)
 // =============================================================================
 
 if (import.meta.env.DEV) {
-	const errors = validateArray(
-		strudelPatternsData as unknown[],
-		validateStrudelPattern,
-		"strudelPatterns"
-	);
+	const errors = [
+		...validateArray(jamPatterns as unknown[], validateStrudelPattern, "strudelPatterns"),
+		...Object.entries(LEGACY_PATTERN_TRACKS)
+			.filter(([legacyId]) => !jamPatterns.some((p) => p.id === legacyId))
+			.map(([legacyId, trackId]) => ({
+				field: legacyId,
+				message: `${legacyId} has no pattern track "${trackId}" in src/content/songs`,
+				value: trackId,
+			})),
+	];
 	if (errors.length > 0) {
 		console.error("Strudel pattern data validation errors:", errors);
 	}
@@ -133,70 +110,80 @@ if (import.meta.env.DEV) {
 // =============================================================================
 
 /**
- * Immutable array of all Strudel patterns
+ * The jam patterns, then every song, as legacy patterns
+ *
+ * @deprecated Use `songs` from `data/songs`
  */
-export const strudelPatterns: readonly StrudelPattern[] = strudelPatternsData;
+export const strudelPatterns: readonly StrudelPattern[] = import.meta.env.DEV
+	? new Proxy(strudelPatternsData, {
+			get(target, key, receiver) {
+				warnLegacy("strudelPatterns", "songs");
+				return Reflect.get(target, key, receiver);
+			},
+		})
+	: strudelPatternsData;
 
 /**
  * Filters patterns by category
  *
  * @param category - The pattern category to filter by
- * @returns Array of patterns matching the specified category
+ * @returns Patterns matching the specified category
+ * @deprecated Filter `songs` by `category`
  *
  * @example
  * ```ts
  * const drumPatterns = getPatternsByCategory("drums");
- * const bassPatterns = getPatternsByCategory("bass");
  * ```
  */
 export function getPatternsByCategory(category: PatternCategory): readonly StrudelPattern[] {
-	return strudelPatterns.filter((p) => p.category === category);
+	warnLegacy("getPatternsByCategory()", "songs.filter((s) => s.category === category)");
+	return strudelPatternsData.filter((p) => p.category === category);
 }
 
 /**
  * Filters patterns by difficulty level
  *
  * @param difficulty - The difficulty level to filter by
- * @returns Array of patterns matching the specified difficulty
+ * @returns Patterns matching the specified difficulty
+ * @deprecated Filter `songs` by `difficulty`
  *
  * @example
  * ```ts
  * const easyPatterns = getPatternsByDifficulty("beginner");
- * const hardPatterns = getPatternsByDifficulty("advanced");
  * ```
  */
 export function getPatternsByDifficulty(difficulty: DifficultyLevel): readonly StrudelPattern[] {
-	return strudelPatterns.filter((p) => p.difficulty === difficulty);
+	warnLegacy("getPatternsByDifficulty()", "songs.filter((s) => s.difficulty === difficulty)");
+	return strudelPatternsData.filter((p) => p.difficulty === difficulty);
 }
 
 /**
- * Gets a pattern by its ID
+ * Gets a pattern by its ID: an old jam pattern id or a song id
  *
- * @param id - The unique pattern identifier
+ * @param id - The pattern or song id
  * @returns The pattern if found, undefined otherwise
+ * @deprecated Use `getSongById`
  *
  * @example
  * ```ts
- * const pattern = getPatternById("pattern-1");
+ * const jam = getPatternById("pattern-1");
+ * const song = getPatternById("song-asha");
  * ```
  */
 export function getPatternById(id: string): StrudelPattern | undefined {
-	return strudelPatterns.find((p) => p.id === id);
+	warnLegacy("getPatternById()", "getSongById()");
+	return strudelPatternsData.find((p) => p.id === id);
 }
 
 /**
  * Gets the shareable Strudel.cc URL for a pattern
  *
- * @param pattern - The pattern object
- * @returns The pre-generated Strudel.cc URL
- *
- * @example
- * ```ts
- * const url = getStrudelUrl(pattern);
- * window.open(url, "_blank");
- * ```
+ * @param pattern - The pattern or song
+ * @returns The Strudel.cc URL generated from the pattern code
+ * @deprecated Read `song.strudelUrl`
  */
-export function getStrudelUrl(pattern: StrudelPattern): string {
+export function getStrudelUrl(pattern: StrudelPattern | Song): string {
+	warnLegacy("getStrudelUrl()", "song.strudelUrl");
 	return pattern.strudelUrl;
 }
 
@@ -204,31 +191,37 @@ export function getStrudelUrl(pattern: StrudelPattern): string {
  * Gets unique categories from all patterns
  *
  * @returns Array of unique category names
+ * @deprecated Map `songs` to their `category`
  */
 export function getUniqueCategories(): readonly PatternCategory[] {
-	return [...new Set(strudelPatterns.map((p) => p.category))];
+	warnLegacy("getUniqueCategories()", "songs.map((s) => s.category)");
+	return [...new Set(strudelPatternsData.map((p) => p.category))];
 }
 
 /**
  * Gets unique difficulty levels from all patterns
  *
  * @returns Array of unique difficulty levels
+ * @deprecated Map `songs` to their `difficulty`
  */
 export function getUniqueDifficulties(): readonly DifficultyLevel[] {
-	return [...new Set(strudelPatterns.map((p) => p.difficulty))];
+	warnLegacy("getUniqueDifficulties()", "songs.map((s) => s.difficulty)");
+	return [...new Set(strudelPatternsData.map((p) => p.difficulty))];
 }
 
 /**
  * Gets the count of patterns by category
  *
  * @returns Object with counts for each category
+ * @deprecated Count `songs` by `category`
  */
 export function getPatternCountsByCategory(): Record<PatternCategory, number> {
+	warnLegacy("getPatternCountsByCategory()", "songs");
 	return {
-		drums: strudelPatterns.filter((p) => p.category === "drums").length,
-		bass: strudelPatterns.filter((p) => p.category === "bass").length,
-		melody: strudelPatterns.filter((p) => p.category === "melody").length,
-		full: strudelPatterns.filter((p) => p.category === "full").length,
+		drums: strudelPatternsData.filter((p) => p.category === "drums").length,
+		bass: strudelPatternsData.filter((p) => p.category === "bass").length,
+		melody: strudelPatternsData.filter((p) => p.category === "melody").length,
+		full: strudelPatternsData.filter((p) => p.category === "full").length,
 	};
 }
 
@@ -236,12 +229,14 @@ export function getPatternCountsByCategory(): Record<PatternCategory, number> {
  * Gets the count of patterns by difficulty
  *
  * @returns Object with counts for each difficulty level
+ * @deprecated Count `songs` by `difficulty`
  */
 export function getPatternCountsByDifficulty(): Record<DifficultyLevel, number> {
+	warnLegacy("getPatternCountsByDifficulty()", "songs");
 	return {
-		beginner: strudelPatterns.filter((p) => p.difficulty === "beginner").length,
-		intermediate: strudelPatterns.filter((p) => p.difficulty === "intermediate").length,
-		advanced: strudelPatterns.filter((p) => p.difficulty === "advanced").length,
+		beginner: strudelPatternsData.filter((p) => p.difficulty === "beginner").length,
+		intermediate: strudelPatternsData.filter((p) => p.difficulty === "intermediate").length,
+		advanced: strudelPatternsData.filter((p) => p.difficulty === "advanced").length,
 	};
 }
 
@@ -250,7 +245,9 @@ export function getPatternCountsByDifficulty(): Record<DifficultyLevel, number>
  *
  * @param bpm - The BPM value to validate
  * @returns True if the BPM is valid
+ * @deprecated Use `clampBpm` from `utils/strudel`
  */
 export function isValidBpm(bpm: number): boolean {
+	warnLegacy("isValidBpm()", "clampBpm()");
 	return bpm >= STRUDEL_DEFAULTS.MIN_BPM && bpm <= STRUDEL_DEFAULTS.MAX_BPM;
 }
@@ -0,0 +1,13 @@
+/**
+ * Atom Feed Endpoint
+ *
+ * Builds `/atom.xml` (Atom 1.0) from `data/feed`.
+ */
+import type { APIRoute } from "astro";
+import { feedChannel, feedItems } from "../data/feed";
+import { renderAtom } from "../utils/feed";
+
+export const GET: APIRoute = () =>
+	new Response(renderAtom(feedChannel, feedItems), {
+		headers: { "Content-Type": "application/atom+xml; charset=utf-8" },
+	});
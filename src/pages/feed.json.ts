@@ -0,0 +1,13 @@
+/**
+ * JSON Feed Endpoint
+ *
+ * Builds `/feed.json` (JSON Feed 1.1) from `data/feed`.
+ */
+import type { APIRoute } from "astro";
+import { feedChannel, feedItems } from "../data/feed";
+import { renderJsonFeed } from "../utils/feed";
+
+export const GET: APIRoute = () =>
+	new Response(renderJsonFeed(feedChannel, feedItems), {
+		headers: { "Content-Type": "application/feed+json; charset=utf-8" },
+	});
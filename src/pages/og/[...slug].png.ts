@@ -0,0 +1,45 @@
+/**
+ * Open Graph Image Endpoint
+ *
+ * Renders each card from `data/og-cards` to `/og/<slug>.png` at build time.
+ * Cover art is read from `public/` and embedded in the card.
+ */
+import { join } from "node:path";
+import type { APIRoute, GetStaticPaths } from "astro";
+import sharp from "sharp";
+import { ogCards } from "../../data/og-cards";
+import { renderOgCard } from "../../utils/og-image";
+import { BASE_PATH, OG_IMAGE } from "../../constants";
+import type { OgCard } from "../../types";
+
+export const getStaticPaths = (() =>
+	ogCards.map((card) => ({
+		params: { slug: card.slug },
+		props: { card },
+	}))) satisfies GetStaticPaths;
+
+interface Props {
+	card: OgCard;
+}
+
+/**
+ * Reads a site image from `public/` as a PNG data URI
+ *
+ * @returns Undefined for images hosted elsewhere
+ */
+async function readCoverArt(path: string): Promise<string | undefined> {
+	if (!path.startsWith(`${BASE_PATH}/`)) return undefined;
+	const file = join(process.cwd(), "public", path.slice(BASE_PATH.length));
+	const png = await sharp(file).resize(OG_IMAGE.COVER_SIZE, OG_IMAGE.COVER_SIZE).png().toBuffer();
+	return `data:image/png;base64,${png.toString("base64")}`;
+}
+
+export const GET: APIRoute<Props> = async ({ props: { card } }) => {
+	const coverArt = card.coverArt ? await readCoverArt(card.coverArt) : undefined;
+	const png = await sharp(Buffer.from(renderOgCard(card, coverArt)))
+		.png()
+		.toBuffer();
+	return new Response(new Uint8Array(png), {
+		headers: { "Content-Type": "image/png" },
+	});
+};
@@ -0,0 +1,13 @@
+/**
+ * RSS Feed Endpoint
+ *
+ * Builds `/rss.xml` (RSS 2.0) from `data/feed`.
+ */
+import type { APIRoute } from "astro";
+import { feedChannel, feedItems } from "../data/feed";
+import { renderRss } from "../utils/feed";
+
+export const GET: APIRoute = () =>
+	new Response(renderRss(feedChannel, feedItems), {
+		headers: { "Content-Type": "application/rss+xml; charset=utf-8" },
+	});
@@ -0,0 +1,13 @@
+/**
+ * Site Search Index Endpoint
+ *
+ * Builds `/search-index.json` from `data/search` for the search page,
+ * which fetches it and matches queries in the browser.
+ */
+import type { APIRoute } from "astro";
+import { searchIndex } from "../data/search";
+
+export const GET: APIRoute = () =>
+	new Response(JSON.stringify(searchIndex), {
+		headers: { "Content-Type": "application/json" },
+	});
@@ -0,0 +1,146 @@
+/**
+ * Service Worker Integration
+ *
+ * Compiles `src/service-worker/sw.ts` to `sw.js` once Astro has written
+ * the site, defining its build constants: the base path, where saved songs
+ * are kept, the URL of every generated page and hashed asset to precache,
+ * and a cache version hashed from those files, so each deploy that changes
+ * them installs a new worker.
+ *
+ * @module service-worker/integration
+ */
+
+import { createHash } from "node:crypto";
+import { readdir, readFile, writeFile } from "node:fs/promises";
+import { join, relative, sep } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { AstroIntegration } from "astro";
+import ts from "typescript";
+import { BASE_PATH, OFFLINE_SONGS } from "../constants";
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+/** Output file name, served at `${BASE_PATH}/sw.js` */
+export const SERVICE_WORKER_FILE = "sw.js";
+
+/** Directory Astro writes hashed (fingerprinted) assets to */
+const HASHED_ASSETS_DIR = "_astro";
+
+/** Length of the hex cache version */
+const CACHE_VERSION_LENGTH = 12;
+
+const SOURCE_PATH = fileURLToPath(new URL("./sw.ts", import.meta.url));
+
+// =============================================================================
+// MANIFEST
+// =============================================================================
+
+/**
+ * Lists every file under a directory, as paths relative to it with `/` separators
+ */
+async function listFiles(dir: string): Promise<string[]> {
+	const entries = await readdir(dir, { recursive: true, withFileTypes: true });
+	return entries
+		.filter((entry) => entry.isFile())
+		.map((entry) => relative(dir, join(entry.parentPath, entry.name)).split(sep).join("/"))
+		.sort();
+}
+
+/**
+ * Checks whether a built file is a page or a hashed asset
+ */
+function isPrecached(file: string): boolean {
+	return (
+		file === "index.html" ||
+		file.endsWith("/index.html") ||
+		file === "404.html" ||
+		(file.startsWith(`${HASHED_ASSETS_DIR}/`) && !file.endsWith(".map"))
+	);
+}
+
+/**
+ * Converts a built file to the URL it's served at, e.g. `about/index.html` to `/inzies/about/`
+ */
+function toUrl(file: string): string {
+	return `${BASE_PATH}/${file.replace(/(^|\/)index\.html$/, "$1")}`;
+}
+
+/**
+ * Hashes the precached files' paths and contents
+ */
+async function hashFiles(dir: string, files: readonly string[]): Promise<string> {
+	const hash = createHash("sha256");
+	for (const file of files) {
+		hash.update(file);
+		hash.update(await readFile(join(dir, file)));
+	}
+	return hash.digest("hex").slice(0, CACHE_VERSION_LENGTH);
+}
+
+// =============================================================================
+// COMPILATION
+// =============================================================================
+
+/**
+ * Compiles the worker source to a classic script with its build constants defined
+ *
+ * @param constants - Values for the constants `sw.ts` declares
+ * @returns The worker script
+ */
+async function compileServiceWorker(
+	constants: Readonly<Record<string, string | readonly string[]>>
+): Promise<string> {
+	const source = await readFile(SOURCE_PATH, "utf8");
+	const { outputText } = ts.transpileModule(source, {
+		compilerOptions: { target: ts.ScriptTarget.ES2022, module: ts.ModuleKind.ESNext },
+		fileName: SOURCE_PATH,
+	});
+
+	const definitions = Object.entries(constants)
+		.map(([name, value]) => `const ${name} = ${JSON.stringify(value)};`)
+		.join("\n");
+	// sw.ts is a module only for type checking; service workers load as classic scripts
+	const script = outputText.replace(/^export \{\};\s*$/m, "");
+	return `${definitions}\n${script}`;
+}
+
+// =============================================================================
+// INTEGRATION
+// =============================================================================
+
+/**
+ * Builds the service worker after the site is generated
+ *
+ * @returns The Astro integration
+ *
+ * @example
+ * ```js
+ * // astro.config.mjs
+ * integrations: [serviceWorker()],
+ * ```
+ */
+export default function serviceWorker(): AstroIntegration {
+	return {
+		name: "inzies:service-worker",
+		hooks: {
+			"astro:build:done": async ({ dir, logger }) => {
+				const outDir = fileURLToPath(dir);
+				const files = (await listFiles(outDir)).filter(isPrecached);
+				const cacheVersion = await hashFiles(outDir, files);
+
+				const script = await compileServiceWorker({
+					BASE_PATH,
+					CACHE_VERSION: cacheVersion,
+					PRECACHE_MANIFEST: files.map(toUrl),
+					OFFLINE_CACHE: OFFLINE_SONGS.CACHE_NAME,
+					OFFLINE_RECORD_PATH: OFFLINE_SONGS.RECORD_PATH,
+				});
+				await writeFile(join(outDir, SERVICE_WORKER_FILE), script);
+
+				logger.info(`${SERVICE_WORKER_FILE} precaches ${files.length} files (${cacheVersion})`);
+			},
+		},
+	};
+}
@@ -0,0 +1,395 @@
+/// <reference lib="webworker" />
+/**
+ * Service Worker for Inzies Band Website
+ *
+ * Provides offline support, caching strategies, and performance optimization.
+ * Precaches every page and hashed asset of the build, then uses a cache-first
+ * strategy for static assets and network-first for pages. Also keeps the
+ * songs visitors save for offline Play Along (see utils/offline).
+ *
+ * Compiled to `dist/sw.js` by the service worker integration after the build,
+ * which defines the constants declared below.
+ *
+ * @module service-worker/sw
+ */
+
+import type { OfflineSong } from "../types";
+
+declare const self: ServiceWorkerGlobalScope;
+
+// =============================================================================
+// BUILD CONSTANTS
+// =============================================================================
+
+/** Site base path without a trailing slash, e.g. "/inzies" (`BASE_PATH`) */
+declare const BASE_PATH: string;
+/** Content hash of the precached files; changes whenever a page or asset does */
+declare const CACHE_VERSION: string;
+/** URLs of every generated page and hashed asset */
+declare const PRECACHE_MANIFEST: readonly string[];
+/** Cache for saved songs (`OFFLINE_SONGS.CACHE_NAME`) */
+declare const OFFLINE_CACHE: string;
+/** Path of saved song records in the offline cache (`OFFLINE_SONGS.RECORD_PATH`) */
+declare const OFFLINE_RECORD_PATH: string;
+
+/**
+ * Messages the page can post to the worker
+ *
+ * Offline song messages are answered on the port sent with them.
+ */
+export type ServiceWorkerMessage =
+	| { readonly type: "SKIP_WAITING" }
+	| { readonly type: "CLEAR_CACHE" }
+	| { readonly type: "SAVE_OFFLINE_SONG"; readonly song: OfflineSong }
+	| { readonly type: "REMOVE_OFFLINE_SONG"; readonly id: string };
+
+/**
+ * Reply to an offline song message
+ */
+export type ServiceWorkerReply =
+	| { readonly ok: true }
+	| { readonly ok: false; readonly error: string };
+
+// =============================================================================
+// CACHE CONFIGURATION
+// =============================================================================
+
+// Cache names with versioning for easy updates
+const STATIC_CACHE = `inzies-static-${CACHE_VERSION}`;
+const DYNAMIC_CACHE = `inzies-dynamic-${CACHE_VERSION}`;
+const IMAGE_CACHE = `inzies-images-${CACHE_VERSION}`;
+
+// Maximum items in dynamic cache
+const MAX_DYNAMIC_CACHE_ITEMS = 50;
+const MAX_IMAGE_CACHE_ITEMS = 100;
+
+// Page served when offline and the requested page isn't cached
+const OFFLINE_FALLBACK = `${BASE_PATH}/`;
+
+// File extensions to cache with different strategies
+const IMAGE_EXTENSIONS = [".jpg", ".jpeg", ".png", ".gif", ".webp", ".svg", ".ico"];
+const STATIC_EXTENSIONS = [".css", ".js", ".woff", ".woff2", ".ttf"];
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Determines if a request is for an image
+ */
+function isImageRequest(url: URL): boolean {
+	return IMAGE_EXTENSIONS.some((ext) => url.pathname.endsWith(ext));
+}
+
+/**
+ * Determines if a request is for a static asset
+ */
+function isStaticAsset(url: URL): boolean {
+	return STATIC_EXTENSIONS.some((ext) => url.pathname.endsWith(ext));
+}
+
+/**
+ * Determines if a request is for a page (HTML)
+ */
+function isPageRequest(request: Request): boolean {
+	return (
+		request.mode === "navigate" || Boolean(request.headers.get("accept")?.includes("text/html"))
+	);
+}
+
+/**
+ * Limits cache size by removing oldest entries
+ */
+async function limitCacheSize(cacheName: string, maxItems: number): Promise<void> {
+	const cache = await caches.open(cacheName);
+	const keys = await cache.keys();
+
+	if (keys.length > maxItems) {
+		// Remove oldest entries (FIFO)
+		const toDelete = keys.slice(0, keys.length - maxItems);
+		await Promise.all(toDelete.map((key) => cache.delete(key)));
+	}
+}
+
+/**
+ * Gets the offline fallback page, or a network error if it isn't cached
+ */
+async function offlineFallback(): Promise<Response> {
+	return (await caches.match(OFFLINE_FALLBACK)) ?? Response.error();
+}
+
+// =============================================================================
+// CACHING STRATEGIES
+// =============================================================================
+
+/**
+ * Cache-first strategy for static assets
+ * Best for versioned files that don't change
+ */
+async function cacheFirst(
+	request: Request,
+	cacheName: string,
+	maxItems?: number
+): Promise<Response> {
+	// Precached assets live in the static cache, so look in every cache
+	const cached = await caches.match(request);
+
+	if (cached) {
+		return cached;
+	}
+
+	try {
+		const response = await fetch(request);
+
+		if (response.ok) {
+			const cache = await caches.open(cacheName);
+			await cache.put(request, response.clone());
+			if (maxItems !== undefined) await limitCacheSize(cacheName, maxItems);
+		}
+
+		return response;
+	} catch {
+		// Return offline fallback if available
+		return offlineFallback();
+	}
+}
+
+/**
+ * Network-first strategy with cache fallback
+ * Best for HTML pages that need fresh content
+ */
+async function networkFirst(request: Request, cacheName: string): Promise<Response> {
+	try {
+		const response = await fetch(request);
+
+		if (response.ok) {
+			const cache = await caches.open(cacheName);
+			await cache.put(request, response.clone());
+			await limitCacheSize(cacheName, MAX_DYNAMIC_CACHE_ITEMS);
+		}
+
+		return response;
+	} catch (error) {
+		// Pages don't depend on their query, e.g. /play/?song=asha is /play/
+		const cached = await caches.match(request, { ignoreSearch: true });
+
+		if (cached) {
+			return cached;
+		}
+
+		// Return offline page for navigation requests
+		if (isPageRequest(request)) {
+			return offlineFallback();
+		}
+
+		throw error;
+	}
+}
+
+/**
+ * Stale-while-revalidate strategy
+ * Returns cached version immediately, updates cache in background
+ */
+async function staleWhileRevalidate(request: Request, cacheName: string): Promise<Response> {
+	const cache = await caches.open(cacheName);
+	const cached = await cache.match(request);
+
+	// Fetch fresh version in background
+	const fetchPromise = fetch(request)
+		.then((response) => {
+			if (response.ok) {
+				void cache.put(request, response.clone());
+			}
+			return response;
+		})
+		.catch(() => Response.error());
+
+	// Return cached immediately, or wait for network
+	return cached ?? fetchPromise;
+}
+
+// =============================================================================
+// OFFLINE SONGS
+// =============================================================================
+
+/**
+ * Gets the cache key of a saved song's record
+ */
+function offlineRecordUrl(id: string): string {
+	return `${OFFLINE_RECORD_PATH}${encodeURIComponent(id)}.json`;
+}
+
+/**
+ * Lists the files a saved song needs besides its record
+ */
+function getOfflineFiles(song: OfflineSong): string[] {
+	return [song.coverArt, ...Object.values(song.samples)];
+}
+
+/**
+ * Reads every saved song record
+ */
+async function getOfflineSongs(cache: Cache): Promise<OfflineSong[]> {
+	const records = (await cache.keys()).filter((request) =>
+		new URL(request.url).pathname.startsWith(OFFLINE_RECORD_PATH)
+	);
+	const responses = await Promise.all(records.map((request) => cache.match(request)));
+	return Promise.all(
+		responses.flatMap((response) => (response ? [response.json() as Promise<OfflineSong>] : []))
+	);
+}
+
+/**
+ * Downloads a song's files, then stores its record
+ *
+ * The record goes in last, so a song only lists as saved once all its files are.
+ */
+async function saveOfflineSong(song: OfflineSong): Promise<void> {
+	const cache = await caches.open(OFFLINE_CACHE);
+	await cache.addAll(getOfflineFiles(song));
+	await cache.put(
+		offlineRecordUrl(song.id),
+		new Response(JSON.stringify(song), { headers: { "Content-Type": "application/json" } })
+	);
+}
+
+/**
+ * Deletes a song's record and the files no other saved song uses
+ */
+async function removeOfflineSong(id: string): Promise<void> {
+	const cache = await caches.open(OFFLINE_CACHE);
+	const record = await cache.match(offlineRecordUrl(id));
+	if (!record) return;
+
+	const song = (await record.json()) as OfflineSong;
+	await cache.delete(offlineRecordUrl(id));
+
+	const inUse = new Set((await getOfflineSongs(cache)).flatMap(getOfflineFiles));
+	await Promise.all(
+		getOfflineFiles(song)
+			.filter((file) => !inUse.has(file))
+			.map((file) => cache.delete(file))
+	);
+}
+
+/**
+ * Runs an offline song task and replies on the message's port
+ */
+async function replyWith(event: ExtendableMessageEvent, task: Promise<void>): Promise<void> {
+	let reply: ServiceWorkerReply;
+	try {
+		await task;
+		reply = { ok: true };
+	} catch (error) {
+		reply = { ok: false, error: error instanceof Error ? error.message : String(error) };
+	}
+	event.ports[0]?.postMessage(reply);
+}
+
+// =============================================================================
+// EVENT LISTENERS
+// =============================================================================
+
+/**
+ * Install event - precache the build's pages and assets
+ *
+ * The new worker then waits until the page accepts the update (see the
+ * SKIP_WAITING message), so open tabs aren't switched to a new version
+ * mid-visit.
+ */
+self.addEventListener("install", (event) => {
+	event.waitUntil(caches.open(STATIC_CACHE).then((cache) => cache.addAll(PRECACHE_MANIFEST)));
+});
+
+/**
+ * Activate event - clean up old caches
+ */
+self.addEventListener("activate", (event) => {
+	event.waitUntil(
+		caches
+			.keys()
+			.then((cacheNames) =>
+				Promise.all(
+					cacheNames
+						// Delete old version caches; saved songs are kept
+						.filter(
+							(name) =>
+								name.startsWith("inzies-") &&
+								!name.endsWith(CACHE_VERSION) &&
+								name !== OFFLINE_CACHE
+						)
+						.map((name) => caches.delete(name))
+				)
+			)
+			.then(() => self.clients.claim())
+	);
+});
+
+/**
+ * Fetch event - apply caching strategies
+ */
+self.addEventListener("fetch", (event) => {
+	const { request } = event;
+	const url = new URL(request.url);
+
+	// Skip non-GET requests
+	if (request.method !== "GET") {
+		return;
+	}
+
+	// Cover art of saved songs may be hosted elsewhere
+	if (url.origin !== self.location.origin && request.destination === "image") {
+		event.respondWith(
+			caches
+				.open(OFFLINE_CACHE)
+				.then((cache) => cache.match(request))
+				.then((cached) => cached ?? fetch(request))
+		);
+		return;
+	}
+
+	// Otherwise only handle same-origin requests within the site
+	if (url.origin !== self.location.origin || !url.pathname.startsWith(`${BASE_PATH}/`)) {
+		return;
+	}
+
+	// Apply appropriate caching strategy
+	if (isImageRequest(url)) {
+		// Cache-first for images
+		event.respondWith(cacheFirst(request, IMAGE_CACHE, MAX_IMAGE_CACHE_ITEMS));
+	} else if (isStaticAsset(url)) {
+		// Cache-first for static assets (CSS, JS, fonts)
+		event.respondWith(cacheFirst(request, STATIC_CACHE));
+	} else if (isPageRequest(request)) {
+		// Network-first for HTML pages
+		event.respondWith(networkFirst(request, DYNAMIC_CACHE));
+	} else {
+		// Stale-while-revalidate for everything else
+		event.respondWith(staleWhileRevalidate(request, DYNAMIC_CACHE));
+	}
+});
+
+/**
+ * Message event - handle commands from main thread
+ */
+self.addEventListener("message", (event: ExtendableMessageEvent) => {
+	const message = event.data as ServiceWorkerMessage | undefined;
+
+	if (message?.type === "SKIP_WAITING") {
+		void self.skipWaiting();
+	}
+
+	if (message?.type === "SAVE_OFFLINE_SONG") {
+		event.waitUntil(replyWith(event, saveOfflineSong(message.song)));
+	}
+
+	if (message?.type === "REMOVE_OFFLINE_SONG") {
+		event.waitUntil(replyWith(event, removeOfflineSong(message.id)));
+	}
+
+	if (message?.type === "CLEAR_CACHE") {
+		event.waitUntil(
+			caches.keys().then((names) => Promise.all(names.map((name) => caches.delete(name))))
+		);
+	}
+});
@@ -66,6 +66,7 @@ export interface BandMember {
 	readonly id: string;
 	readonly name: string;
 	readonly role: string;
+	/** Plain text of the member's Markdown bio */
 	readonly bio: string;
 	readonly asciiArt: string;
 	readonly photo?: string;
@@ -73,10 +74,99 @@ export interface BandMember {
 	readonly social?: SocialLinks;
 }
 
+// =============================================================================
+// GALLERY TYPES
+// =============================================================================
+
+/**
+ * Valid categories for gallery images
+ */
+export const GALLERY_CATEGORIES = ["live", "studio", "bts"] as const;
+export type GalleryCategory = (typeof GALLERY_CATEGORIES)[number];
+
+/**
+ * Represents a photo in the gallery
+ */
+export interface GalleryImage {
+	readonly id: string;
+	readonly src: string;
+	readonly alt: string;
+	readonly category: GalleryCategory;
+}
+
 // =============================================================================
 // SONG & ALBUM TYPES
 // =============================================================================
 
+/**
+ * An audio file attached to a track
+ */
+export interface SongAudio {
+	/** Path to an MP3 or OGG file */
+	readonly src: string;
+	/** A short preview rather than the full track */
+	readonly preview: boolean;
+}
+
+/**
+ * A song's lyrics, in Nepali script with an optional romanized transliteration
+ *
+ * Each line may start with an LRC timestamp such as `[01:23.45]`; time every
+ * line to have the lyrics follow playback. Blank lines separate stanzas.
+ */
+export interface SongLyrics {
+	/** Lyrics in Nepali script */
+	readonly text: string;
+	/** Romanized transliteration, line for line with `text` */
+	readonly romanized?: string;
+}
+
+/**
+ * Modes a song's key can be in
+ */
+export const MUSICAL_MODES = ["major", "minor"] as const;
+export type MusicalMode = (typeof MUSICAL_MODES)[number];
+
+/**
+ * Names for the sections of a song's form
+ *
+ * `loop` is the repeating progression of a pattern, used when a song
+ * declares no sections of its own.
+ */
+export const SONG_SECTION_NAMES = [
+	"intro",
+	"verse",
+	"pre-chorus",
+	"chorus",
+	"bridge",
+	"solo",
+	"outro",
+	"loop",
+] as const;
+export type SongSectionName = (typeof SONG_SECTION_NAMES)[number];
+
+/**
+ * A section of a song with its chord progression
+ */
+export interface SongSection {
+	readonly name: SongSectionName;
+	readonly bars: number;
+	/** Chord symbols such as "Am" or "F#m7", one per bar, repeated to fill `bars` */
+	readonly chords: readonly string[];
+}
+
+/**
+ * A song's key, meter and form
+ */
+export interface MusicalMetadata {
+	/** Tonic, e.g. "A" or "Bb" */
+	readonly key: string;
+	readonly mode: MusicalMode;
+	/** Beats per bar over the beat unit, e.g. "4/4" */
+	readonly timeSignature: string;
+	readonly sections: readonly SongSection[];
+}
+
 /**
  * Represents a song with its Strudel pattern
  */
@@ -89,13 +179,95 @@ export interface Song {
 	readonly coverArt: string;
 	/** The Strudel pattern code for display */
 	readonly pattern: string;
-	/** Pre-generated shareable URL from strudel.cc */
+	/** Shareable strudel.cc URL, generated from `pattern` */
 	readonly strudelUrl: string;
 	readonly bpm: number;
 	readonly duration: string;
 	readonly releaseDate: string;
 	readonly spotifyUrl?: string;
 	readonly youtubeUrl?: string;
+	/** Preview or full track for the site-wide audio player */
+	readonly audio?: SongAudio;
+	readonly lyrics?: SongLyrics;
+	/**
+	 * Key, meter and sections; anything not declared is worked out from the
+	 * pattern's chord stacks (see utils/chords). Unset if no key can be found.
+	 */
+	readonly music?: MusicalMetadata;
+	/** Derived from `pattern` (see utils/pattern-analysis) */
+	readonly category: PatternCategory;
+	/** Derived from `pattern` and `bpm` (see utils/pattern-analysis) */
+	readonly difficulty: DifficultyLevel;
+}
+
+/**
+ * A band member's part in a song, from a `// #member - Part` header in its pattern
+ */
+export interface PatternPart {
+	/** The `BandMember` id after the `#` */
+	readonly memberId: string;
+	/** Instrument label, e.g. "Drums & Percussion" */
+	readonly part: string;
+}
+
+/**
+ * One member's stem of a song pattern: their part header and the voices under it
+ */
+export interface PatternStem extends PatternPart {
+	/** The header line and the code up to the next header, verbatim */
+	readonly code: string;
+}
+
+/**
+ * A song pattern split into the shared preamble and per-member stems
+ */
+export interface ParsedPattern {
+	/** Code before the first part header (title comments, setcps, etc.) */
+	readonly preamble: string;
+	readonly stems: readonly PatternStem[];
+}
+
+/**
+ * Which stems of a pattern are soloed or muted, by member id
+ *
+ * While anything is soloed only the soloed stems play; otherwise
+ * everything but the muted stems plays.
+ */
+export interface PatternMix {
+	readonly soloed: readonly string[];
+	readonly muted: readonly string[];
+}
+
+/**
+ * Pattern categories, derived from which voices a pattern plays
+ */
+export const PATTERN_CATEGORIES = ["drums", "bass", "melody", "full"] as const;
+export type PatternCategory = (typeof PATTERN_CATEGORIES)[number];
+
+/**
+ * Difficulty levels, derived from how busy and layered a pattern is
+ */
+export const DIFFICULTY_LEVELS = ["beginner", "intermediate", "advanced"] as const;
+export type DifficultyLevel = (typeof DIFFICULTY_LEVELS)[number];
+
+/**
+ * A song in the audio player queue, with only what the player shows
+ */
+export interface PlayerTrack extends Pick<Song, "id" | "title" | "album" | "albumId" | "coverArt"> {
+	readonly audio: SongAudio;
+}
+
+/**
+ * A song saved for offline Play Along, as stored by the service worker
+ */
+export interface OfflineSong extends Pick<
+	Song,
+	"id" | "title" | "album" | "coverArt" | "pattern" | "bpm"
+> {
+	/** URLs of the drum bank samples the pattern uses, by sample key (e.g. "RolandTR909_sd:3") */
+	readonly samples: Readonly<Record<string, string>>;
+	/** ISO 8601 timestamp */
+	readonly savedAt: string;
 }
 
 /**
@@ -115,25 +287,270 @@ export interface Album {
 }
 
 // =============================================================================
-// LEGACY STRUDEL PATTERN TYPES (for backward compatibility)
+// CATALOG TYPES
 // =============================================================================
 
 /**
- * Valid pattern categories for Strudel patterns
- * @deprecated Use Song interface instead
+ * A track on a catalog release
+ *
+ * @remarks
+ * A track that carries a Strudel `pattern` becomes a {@link Song} on the
+ * Play Along page. The same track may appear on several releases
+ * (e.g. a single and its album).
  */
-export const PATTERN_CATEGORIES = ["drums", "bass", "melody", "full"] as const;
-export type PatternCategory = (typeof PATTERN_CATEGORIES)[number];
+export interface CatalogTrack extends Pick<StreamingLinks, "spotifyUrl" | "youtubeUrl"> {
+	readonly id: string;
+	readonly title: string;
+	/** Track length in m:ss format */
+	readonly duration: string;
+	readonly description?: string;
+	/** Defaults to the release cover art */
+	readonly coverArt?: string;
+	/** Strudel pattern code for Play Along */
+	readonly pattern?: string;
+	readonly bpm?: number;
+	/** Preview or full track for the site-wide audio player */
+	readonly audio?: SongAudio;
+	readonly lyrics?: SongLyrics;
+	/** Declared musical metadata; the rest is derived from `pattern` */
+	readonly music?: Partial<MusicalMetadata>;
+}
 
 /**
- * Valid difficulty levels for Strudel patterns
- * @deprecated Use Song interface instead
+ * A release in the catalog, the single source for releases, albums and songs
  */
-export const DIFFICULTY_LEVELS = ["beginner", "intermediate", "advanced"] as const;
-export type DifficultyLevel = (typeof DIFFICULTY_LEVELS)[number];
+export interface CatalogRelease extends StreamingLinks {
+	readonly id: string;
+	readonly title: string;
+	readonly type: ReleaseType;
+	readonly description: string;
+	readonly coverArt: string;
+	/** ISO 8601 date string (YYYY-MM-DD) */
+	readonly releaseDate: string;
+	/** Ordered tracklist */
+	readonly tracklist: readonly CatalogTrack[];
+	/** Pin as the latest release regardless of release date */
+	readonly pinnedLatest?: boolean;
+}
+
+// =============================================================================
+// POST TYPES
+// =============================================================================
+
+/**
+ * A news post: a tour update, studio diary or Strudel tutorial
+ */
+export interface Post {
+	readonly id: string;
+	readonly title: string;
+	/** One-line summary for post lists, feeds and search */
+	readonly description: string;
+	/** ISO 8601 date string (YYYY-MM-DD) */
+	readonly date: string;
+	/** ID of the `BandMember` who wrote it */
+	readonly author: string;
+	/** Lowercase, hyphenated tags, e.g. "strudel" or "tour" */
+	readonly tags: readonly string[];
+	/** Image path or URL shown at the top of the post */
+	readonly coverImage?: string;
+	/** Estimated reading time in minutes */
+	readonly readingTime: number;
+}
+
+// =============================================================================
+// SEARCH TYPES
+// =============================================================================
+
+/**
+ * Kinds of page the site search index covers
+ */
+export const SEARCH_ENTRY_KINDS = ["release", "song", "member", "post"] as const;
+export type SearchEntryKind = (typeof SEARCH_ENTRY_KINDS)[number];
+
+/**
+ * One searchable page in the site search index
+ */
+export interface SearchEntry {
+	readonly kind: SearchEntryKind;
+	readonly title: string;
+	readonly url: string;
+	/** Plain text to match against, e.g. a description or a song's lyrics */
+	readonly text: string;
+}
+
+// =============================================================================
+// FEED TYPES
+// =============================================================================
+
+/**
+ * Kinds of entry in the site's RSS, Atom and JSON feeds
+ */
+export const FEED_ITEM_KINDS = ["release", "post"] as const;
+export type FeedItemKind = (typeof FEED_ITEM_KINDS)[number];
+
+/**
+ * A file attached to a feed entry, e.g. a release's cover art
+ */
+export interface FeedEnclosure {
+	/** Absolute URL */
+	readonly url: string;
+	/** MIME type, e.g. "image/png" */
+	readonly type: string;
+	/** Size in bytes */
+	readonly length: number;
+}
+
+/**
+ * One entry in the site's feeds
+ */
+export interface FeedItem {
+	readonly kind: FeedItemKind;
+	readonly title: string;
+	/** Absolute permalink, also the entry's id */
+	readonly url: string;
+	/** Plain-text summary */
+	readonly summary: string;
+	/** Full entry as HTML */
+	readonly contentHtml: string;
+	/** ISO 8601 date (YYYY-MM-DD) */
+	readonly date: string;
+	readonly enclosure?: FeedEnclosure;
+	/** Who wrote the entry, e.g. a news post's band member */
+	readonly author?: { readonly name: string; readonly url: string };
+	/** Related links, e.g. streaming platforms */
+	readonly links: readonly { readonly title: string; readonly url: string }[];
+	readonly categories: readonly string[];
+}
+
+// =============================================================================
+// STRUCTURED DATA TYPES
+// =============================================================================
+
+/**
+ * schema.org types the site describes itself with, as JSON-LD
+ */
+export const JSON_LD_TYPES = ["MusicGroup", "Person", "MusicAlbum", "MusicRecording"] as const;
+export type JsonLdType = (typeof JSON_LD_TYPES)[number];
+
+/**
+ * schema.org `MusicAlbumReleaseType` values
+ */
+export const MUSIC_ALBUM_RELEASE_TYPES = [
+	"https://schema.org/SingleRelease",
+	"https://schema.org/EPRelease",
+	"https://schema.org/AlbumRelease",
+] as const;
+export type MusicAlbumReleaseType = (typeof MUSIC_ALBUM_RELEASE_TYPES)[number];
+
+/**
+ * A link from one JSON-LD node to another
+ */
+export interface JsonLdReference<T extends JsonLdType = JsonLdType> {
+	readonly "@type": T;
+	readonly name: string;
+	/** Absolute URL */
+	readonly url: string;
+}
+
+/**
+ * schema.org `Person`, for a band member
+ */
+export interface PersonJsonLd extends JsonLdReference<"Person"> {
+	/** The member's role in the band */
+	readonly jobTitle?: string;
+	readonly description?: string;
+	readonly image?: string;
+	readonly sameAs?: readonly string[];
+	readonly memberOf?: JsonLdReference<"MusicGroup">;
+}
+
+/**
+ * schema.org `MusicGroup`, for the band
+ */
+export interface MusicGroupJsonLd extends JsonLdReference<"MusicGroup"> {
+	readonly description?: string;
+	readonly logo?: string;
+	/** Profiles on other sites, e.g. Spotify and Instagram */
+	readonly sameAs?: readonly string[];
+	readonly member?: readonly PersonJsonLd[];
+	readonly album?: readonly JsonLdReference<"MusicAlbum">[];
+}
+
+/**
+ * schema.org `MusicRecording`, for a song or track
+ */
+export interface MusicRecordingJsonLd extends JsonLdReference<"MusicRecording"> {
+	readonly description?: string;
+	readonly image?: string;
+	/** ISO 8601 duration, e.g. "PT3M48S" */
+	readonly duration?: string;
+	/** ISO 8601 date (YYYY-MM-DD) */
+	readonly datePublished?: string;
+	readonly byArtist: JsonLdReference<"MusicGroup">;
+	readonly inAlbum?: JsonLdReference<"MusicAlbum">;
+	/** Streaming URLs */
+	readonly sameAs?: readonly string[];
+}
+
+/**
+ * schema.org `MusicAlbum`, for a release
+ */
+export interface MusicAlbumJsonLd extends JsonLdReference<"MusicAlbum"> {
+	readonly description?: string;
+	readonly image?: string;
+	/** ISO 8601 date (YYYY-MM-DD) */
+	readonly datePublished?: string;
+	readonly albumReleaseType: MusicAlbumReleaseType;
+	readonly byArtist: JsonLdReference<"MusicGroup">;
+	readonly numTracks: number;
+	readonly track: readonly MusicRecordingJsonLd[];
+	/** Streaming URLs */
+	readonly sameAs?: readonly string[];
+}
+
+/**
+ * Any JSON-LD node the site publishes
+ */
+export type JsonLdNode = MusicGroupJsonLd | PersonJsonLd | MusicAlbumJsonLd | MusicRecordingJsonLd;
+
+// =============================================================================
+// OPEN GRAPH TYPES
+// =============================================================================
+
+/**
+ * Kinds of page that get an Open Graph card
+ */
+export const OG_CARD_KINDS = ["page", "release", "song", "member", "post"] as const;
+export type OgCardKind = (typeof OG_CARD_KINDS)[number];
+
+/**
+ * A social preview card, rendered to a PNG at build time
+ */
+export interface OgCard {
+	readonly kind: OgCardKind;
+	/** Image path under `og/` without the extension, e.g. "music/single-asha" */
+	readonly slug: string;
+	/** Page the card previews */
+	readonly url: string;
+	readonly title: string;
+	readonly subtitle: string;
+	/** Site path of a square image shown beside the title */
+	readonly coverArt?: string;
+	/** Code shown in a terminal window, e.g. a song's Strudel pattern */
+	readonly code?: string;
+}
+
+// =============================================================================
+// LEGACY STRUDEL PATTERN TYPES (for backward compatibility)
+// =============================================================================
 
 /**
  * Represents a Strudel.cc music pattern
+ *
+ * @remarks
+ * Only served by the compatibility adapter in `data/strudel-patterns`,
+ * which builds these from songs and the old jam pattern tracks.
+ *
  * @deprecated Use Song interface instead
  */
 export interface StrudelPattern {
@@ -214,6 +631,8 @@ export interface StrudelConfig {
 	readonly enabled: boolean;
 	readonly defaultBPM: number;
 	readonly defaultPattern: string;
+	/** Play supported patterns in the page instead of the strudel.cc embed */
+	readonly localPlayback: boolean;
 }
 
 // =============================================================================
@@ -246,8 +665,6 @@ export interface StrudelPlayerProps {
 	readonly title?: string;
 	readonly description?: string;
 	readonly bpm?: number;
-	/** Pre-generated shareable URL from strudel.cc */
-	readonly strudelUrl?: string;
 }
 
 // =============================================================================
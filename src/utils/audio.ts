@@ -0,0 +1,133 @@
+/**
+ * Web Audio Utilities
+ *
+ * Shared plumbing for components that listen to audio, such as the
+ * waveform visualizer, and the events the site-wide audio player
+ * broadcasts. Browser-only: call these from `onMount` or event
+ * handlers, never during server rendering.
+ *
+ * @module utils/audio
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Audio a visualizer can listen to
+ */
+export type AnalysableSource = MediaStream | HTMLMediaElement;
+
+/**
+ * An analyser tapped into a source, with a way to let go of it
+ */
+export interface AnalyserTap {
+	readonly analyser: AnalyserNode;
+	/** Disconnects the analyser; the source keeps playing */
+	readonly disconnect: () => void;
+}
+
+// =============================================================================
+// ANALYSERS
+// =============================================================================
+
+let sharedContext: AudioContext | undefined;
+
+// A media element can only be wrapped in one source node for its whole life
+const elementSources = new WeakMap<HTMLMediaElement, MediaElementAudioSourceNode>();
+
+/**
+ * Gets the page-wide AudioContext, creating it on first use
+ */
+export function getAudioContext(): AudioContext {
+	sharedContext ??= new AudioContext();
+	return sharedContext;
+}
+
+/**
+ * Taps an AnalyserNode into a media element or stream
+ *
+ * Media elements keep playing through the speakers; streams (e.g. a
+ * microphone) are only analysed, so they don't feed back.
+ *
+ * @param source - The element or stream to listen to
+ * @param fftSize - Analyser FFT size, a power of two
+ * @returns The analyser and a function to disconnect it
+ *
+ * @example
+ * ```ts
+ * const { analyser, disconnect } = createAnalyser(audioElement);
+ * // later
+ * disconnect();
+ * ```
+ */
+export function createAnalyser(source: AnalysableSource, fftSize = 256): AnalyserTap {
+	const context = getAudioContext();
+	const analyser = context.createAnalyser();
+	analyser.fftSize = fftSize;
+
+	let node: AudioNode;
+	if (source instanceof HTMLMediaElement) {
+		let elementSource = elementSources.get(source);
+		if (!elementSource) {
+			elementSource = context.createMediaElementSource(source);
+			elementSource.connect(context.destination);
+			elementSources.set(source, elementSource);
+		}
+		node = elementSource;
+	} else {
+		node = context.createMediaStreamSource(source);
+	}
+
+	node.connect(analyser);
+	void context.resume();
+
+	return {
+		analyser,
+		disconnect: () => node.disconnect(analyser),
+	};
+}
+
+// =============================================================================
+// AUDIO PLAYER EVENTS
+// =============================================================================
+
+/**
+ * What the site-wide audio player is doing, broadcast as it plays
+ */
+export interface AudioPlayerState {
+	/** The song loaded in the player */
+	readonly songId: string;
+	readonly playing: boolean;
+	/** Playback position in seconds */
+	readonly currentTime: number;
+}
+
+/** Document event the audio player dispatches with its state */
+const AUDIO_PLAYER_EVENT = "inzies:audio-player";
+
+/**
+ * Broadcasts the audio player's state to the rest of the page
+ *
+ * @param state - The player's current state
+ */
+export function dispatchAudioPlayerState(state: AudioPlayerState): void {
+	document.dispatchEvent(new CustomEvent(AUDIO_PLAYER_EVENT, { detail: state }));
+}
+
+/**
+ * Listens for audio player state changes, e.g. to sync lyrics to playback
+ *
+ * @param listener - Called with each new state
+ * @returns A function that stops listening
+ *
+ * @example
+ * ```ts
+ * onMount(() => onAudioPlayerState((state) => (playerTime = state.currentTime)));
+ * ```
+ */
+export function onAudioPlayerState(listener: (state: AudioPlayerState) => void): () => void {
+	const handler = (event: Event) => listener((event as CustomEvent<AudioPlayerState>).detail);
+	document.addEventListener(AUDIO_PLAYER_EVENT, handler);
+	return () => document.removeEventListener(AUDIO_PLAYER_EVENT, handler);
+}
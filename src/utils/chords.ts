@@ -0,0 +1,392 @@
+/**
+ * Chord Utilities
+ *
+ * Names chords, reads chord progressions out of pattern code, works out a
+ * song's key from its chords and checks chords against a key. Chords in
+ * patterns are mini-notation stacks such as `note("<[a3,c4,e4] [f3,a3,c4]>")`;
+ * each cycle of the pattern counts as one bar.
+ *
+ * @module utils/chords
+ */
+
+import type { MusicalMetadata, MusicalMode, SongSection } from "../types";
+import { noteToMidi, parseMiniNotation, queryMiniNotation } from "./mini-notation";
+import { blankComments } from "./strudel";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A chord symbol broken into its parts
+ */
+export interface ParsedChord {
+	/** The symbol as written, e.g. "F#m7/E" */
+	readonly symbol: string;
+	/** Root pitch class, 0 (C) to 11 (B) */
+	readonly root: number;
+	/** Quality suffix, e.g. "m7"; empty for a major triad */
+	readonly quality: ChordQuality;
+	/** Pitch classes of every note, bass note included */
+	readonly pitchClasses: readonly number[];
+}
+
+export type ChordQuality = keyof typeof CHORD_QUALITIES;
+
+// =============================================================================
+// PITCHES
+// =============================================================================
+
+/** Intervals above the root for each chord quality suffix */
+const CHORD_QUALITIES = {
+	"": [0, 4, 7],
+	m: [0, 3, 7],
+	"5": [0, 7],
+	dim: [0, 3, 6],
+	aug: [0, 4, 8],
+	sus2: [0, 2, 7],
+	sus4: [0, 5, 7],
+	"7": [0, 4, 7, 10],
+	maj7: [0, 4, 7, 11],
+	m7: [0, 3, 7, 10],
+} as const satisfies Record<string, readonly number[]>;
+
+/** Scale degrees of each mode, in semitones above the tonic */
+const MODE_STEPS: Record<MusicalMode, readonly number[]> = {
+	major: [0, 2, 4, 5, 7, 9, 11],
+	minor: [0, 2, 3, 5, 7, 8, 10],
+};
+
+/** Raised 6th and 7th, which minor keys borrow for their V and vii chords */
+const MINOR_ALTERATIONS = [9, 11];
+
+/** How each tonic is spelled, by mode */
+const TONIC_NAMES: Record<MusicalMode, readonly string[]> = {
+	major: ["C", "Db", "D", "Eb", "E", "F", "F#", "G", "Ab", "A", "Bb", "B"],
+	minor: ["C", "C#", "D", "Eb", "E", "F", "F#", "G", "G#", "A", "Bb", "B"],
+};
+
+const CHORD_SYMBOL_REGEX =
+	/^([A-G])([#b]?)(maj7|m7|dim|aug|sus2|sus4|m|5|7)?(?:\/([A-G])([#b]?))?$/;
+
+const LETTER_SEMITONES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+function toPitchClass(letter: string, accidental: string): number {
+	const offset = accidental === "#" ? 1 : accidental === "b" ? -1 : 0;
+	return (LETTER_SEMITONES[letter] + offset + 12) % 12;
+}
+
+/**
+ * Spells a Strudel note name as a chord root, e.g. "fs3" as "F#"
+ */
+function spellNote(note: string): string {
+	const match = note.match(/^([a-gA-G])(#|s|b|f)?/);
+	if (!match) return note;
+	const accidental = match[2] === "#" || match[2] === "s" ? "#" : match[2] ? "b" : "";
+	return `${match[1].toUpperCase()}${accidental}`;
+}
+
+// =============================================================================
+// CHORDS
+// =============================================================================
+
+/**
+ * Parses a chord symbol
+ *
+ * Supports major, minor, power, diminished, augmented and suspended
+ * triads, dominant, major and minor sevenths, and slash bass notes.
+ *
+ * @param symbol - The chord symbol, e.g. "Am", "Bb", "F#m7" or "C/E"
+ * @returns The parsed chord, or undefined if the symbol isn't recognized
+ *
+ * @example
+ * ```ts
+ * parseChordSymbol("Am"); // { symbol: "Am", root: 9, quality: "m", pitchClasses: [9, 0, 4] }
+ * ```
+ */
+export function parseChordSymbol(symbol: string): ParsedChord | undefined {
+	const match = CHORD_SYMBOL_REGEX.exec(symbol.trim());
+	if (!match) return undefined;
+
+	const root = toPitchClass(match[1], match[2]);
+	const quality = (match[3] ?? "") as ChordQuality;
+	const pitchClasses = CHORD_QUALITIES[quality].map((interval) => (root + interval) % 12);
+	if (match[4]) {
+		const bass = toPitchClass(match[4], match[5]);
+		if (!pitchClasses.includes(bass)) pitchClasses.push(bass);
+	}
+	return { symbol: symbol.trim(), root, quality, pitchClasses };
+}
+
+/**
+ * Names the chord a set of notes forms
+ *
+ * Inversions are named with a slash bass, e.g. "C/E".
+ *
+ * @param notes - Strudel note names, e.g. `["a3", "c4", "e4"]`
+ * @returns The chord symbol, or undefined for fewer than two notes or an unknown shape
+ *
+ * @example
+ * ```ts
+ * identifyChord(["a3", "c4", "e4"]); // "Am"
+ * identifyChord(["b2", "d3", "fs3"]); // "Bm"
+ * identifyChord(["e3", "b3"]); // "E5"
+ * ```
+ */
+export function identifyChord(notes: readonly string[]): string | undefined {
+	const pitched = notes
+		.map((note) => ({ note, midi: noteToMidi(note) }))
+		.filter((p): p is { note: string; midi: number } => p.midi !== undefined)
+		.sort((a, b) => a.midi - b.midi);
+	if (pitched.length < 2) return undefined;
+
+	const pitchClasses = new Set(pitched.map((p) => p.midi % 12));
+	const bass = pitched[0];
+
+	// Try the bass note as the root first, so root-position chords win
+	for (const candidate of pitched) {
+		const root = candidate.midi % 12;
+		for (const [quality, intervals] of Object.entries(CHORD_QUALITIES)) {
+			const chordClasses = intervals.map((interval) => (root + interval) % 12);
+			const matches =
+				chordClasses.length === pitchClasses.size &&
+				chordClasses.every((pc) => pitchClasses.has(pc));
+			if (!matches) continue;
+
+			const name = `${spellNote(candidate.note)}${quality}`;
+			return bass.midi % 12 === root ? name : `${name}/${spellNote(bass.note)}`;
+		}
+	}
+	return undefined;
+}
+
+// =============================================================================
+// PROGRESSIONS
+// =============================================================================
+
+/** Cycles sampled when reading a progression, enough for eight-chord `< >` */
+const SAMPLED_BARS = 16;
+
+const NOTE_CALL_REGEX = /(?<![\w$.])note\s*\(\s*(?:"((?:[^"\\\n]|\\.)*)"|'((?:[^'\\\n]|\\.)*)')/g;
+
+/**
+ * Shortest repeating unit of a sequence
+ */
+function getPeriod<T>(values: readonly T[]): readonly T[] {
+	for (let length = 1; length < values.length; length++) {
+		if (values.every((value, index) => value === values[index % length])) {
+			return values.slice(0, length);
+		}
+	}
+	return values;
+}
+
+/**
+ * Reads the chord progression out of pattern code
+ *
+ * Looks at every `note()` voice that plays chord stacks and takes the one
+ * with the fullest chords (most notes at once), naming the chord at the
+ * start of each cycle.
+ *
+ * @param code - The Strudel pattern code
+ * @returns One chord symbol per bar for one pass of the progression (empty if there are no chords)
+ *
+ * @example
+ * ```ts
+ * extractChordProgression('note("<[a3,c4,e4] [f3,a3,c4]>").s("piano")'); // ["Am", "F"]
+ * ```
+ */
+export function extractChordProgression(code: string): readonly string[] {
+	let best: { chords: string[]; size: number } | undefined;
+
+	for (const match of blankComments(code).matchAll(NOTE_CALL_REGEX)) {
+		const parsed = parseMiniNotation(match[1] ?? match[2]);
+		if (!parsed.success) continue;
+
+		const chords: string[] = [];
+		let size = 0;
+		for (let bar = 0; bar < SAMPLED_BARS; bar++) {
+			const onset = queryMiniNotation(parsed.node, bar, bar + 1).filter((e) => e.begin === bar);
+			const chord = identifyChord(onset.map((e) => e.value));
+			if (!chord) break;
+			chords.push(chord);
+			size = Math.max(size, onset.length);
+		}
+
+		if (chords.length === SAMPLED_BARS && (!best || size > best.size)) {
+			best = { chords, size };
+		}
+	}
+
+	return best ? getPeriod(best.chords) : [];
+}
+
+// =============================================================================
+// KEYS
+// =============================================================================
+
+/**
+ * Gets the pitch classes that belong to a key
+ *
+ * Minor keys include the raised 6th and 7th of melodic and harmonic minor.
+ *
+ * @param key - The tonic, e.g. "A" or "Bb"
+ * @param mode - Major or minor
+ * @returns Pitch classes 0 (C) to 11 (B), or empty if the tonic isn't a note name
+ */
+export function getKeyPitchClasses(key: string, mode: MusicalMode): readonly number[] {
+	const match = /^([A-G])([#b]?)$/.exec(key);
+	if (!match) return [];
+	const tonic = toPitchClass(match[1], match[2]);
+	const steps = mode === "minor" ? [...MODE_STEPS.minor, ...MINOR_ALTERATIONS] : MODE_STEPS.major;
+	return steps.map((step) => (tonic + step) % 12);
+}
+
+/**
+ * Lists the notes of a chord that fall outside a key
+ *
+ * @param symbol - The chord symbol
+ * @param key - The tonic
+ * @param mode - Major or minor
+ * @returns Note names outside the key (empty if the chord fits, or can't be parsed)
+ *
+ * @example
+ * ```ts
+ * getNotesOutsideKey("D", "C", "major"); // ["F#"]
+ * ```
+ */
+export function getNotesOutsideKey(symbol: string, key: string, mode: MusicalMode): string[] {
+	const chord = parseChordSymbol(symbol);
+	const scale = getKeyPitchClasses(key, mode);
+	if (!chord || scale.length === 0) return [];
+	return chord.pitchClasses.filter((pc) => !scale.includes(pc)).map((pc) => TONIC_NAMES[mode][pc]);
+}
+
+/**
+ * Compares two scores criterion by criterion, the first difference deciding
+ */
+function compareScores(a: readonly number[], b: readonly number[]): number {
+	const index = a.findIndex((value, i) => value !== b[i]);
+	return index === -1 ? 0 : a[index] - b[index];
+}
+
+/**
+ * Works out the key a chord progression is in
+ *
+ * Picks the key whose scale holds the most chord notes; ties go to the
+ * key whose tonic chord opens the progression, then to the one whose
+ * tonic chord appears most.
+ *
+ * @param chords - Chord symbols in order
+ * @returns The key and mode, or undefined if no chord can be parsed
+ *
+ * @example
+ * ```ts
+ * detectKey(["Am", "F", "C", "G"]); // { key: "A", mode: "minor" }
+ * ```
+ */
+export function detectKey(
+	chords: readonly string[]
+): Pick<MusicalMetadata, "key" | "mode"> | undefined {
+	const parsed = chords.flatMap((symbol) => parseChordSymbol(symbol) ?? []);
+	if (parsed.length === 0) return undefined;
+
+	const isTonicChord = (chord: ParsedChord, tonic: number, mode: MusicalMode) =>
+		chord.root === tonic &&
+		(mode === "minor" ? chord.quality.startsWith("m") : !chord.quality.startsWith("m"));
+
+	let best: { key: string; mode: MusicalMode; score: number[] } | undefined;
+	for (const mode of ["minor", "major"] as const) {
+		for (let tonic = 0; tonic < 12; tonic++) {
+			const scale = MODE_STEPS[mode].map((step) => (tonic + step) % 12);
+			const score = [
+				parsed.reduce(
+					(sum, c) => sum + c.pitchClasses.filter((pc) => scale.includes(pc)).length,
+					0
+				),
+				isTonicChord(parsed[0], tonic, mode) ? 1 : 0,
+				parsed.filter((c) => isTonicChord(c, tonic, mode)).length,
+			];
+			if (!best || compareScores(score, best.score) > 0) {
+				best = { key: TONIC_NAMES[mode][tonic], mode, score };
+			}
+		}
+	}
+	return best && { key: best.key, mode: best.mode };
+}
+
+// =============================================================================
+// SONG METADATA
+// =============================================================================
+
+/** Time signature of patterns, whose cycles are four beats long */
+const DEFAULT_TIME_SIGNATURE = "4/4";
+
+/**
+ * Fills in a song's musical metadata from its pattern
+ *
+ * Declared values win. Without declared sections, the pattern's chord
+ * progression becomes a single `loop` section; without a declared key,
+ * the key is worked out from the sections' chords.
+ *
+ * @param entry - A song with pattern code and any declared `music`
+ * @returns The entry with complete `music`, or without it if no key can be found
+ */
+export function withMusicalMetadata<
+	T extends { readonly pattern: string; readonly music?: Partial<MusicalMetadata> },
+>(entry: T): Omit<T, "music"> & { readonly music?: MusicalMetadata } {
+	const { music: declared = {}, ...rest } = entry;
+
+	const progression = declared.sections ? [] : extractChordProgression(entry.pattern);
+	const sections: readonly SongSection[] =
+		declared.sections ??
+		(progression.length > 0
+			? [{ name: "loop", bars: progression.length, chords: progression }]
+			: []);
+
+	const detected = detectKey(sections.flatMap((section) => section.chords));
+	const key = declared.key ?? detected?.key;
+	const mode = declared.mode ?? detected?.mode;
+	if (key === undefined || mode === undefined) return rest;
+
+	return {
+		...rest,
+		music: {
+			key,
+			mode,
+			timeSignature: declared.timeSignature ?? DEFAULT_TIME_SIGNATURE,
+			sections,
+		},
+	};
+}
+
+/**
+ * Lays a section's chords out bar by bar, repeating them to fill its bars
+ *
+ * @param section - The song section
+ * @returns One chord symbol per bar
+ *
+ * @example
+ * ```ts
+ * getSectionBars({ name: "verse", bars: 6, chords: ["Am", "F"] });
+ * // ["Am", "F", "Am", "F", "Am", "F"]
+ * ```
+ */
+export function getSectionBars(section: SongSection): readonly string[] {
+	if (section.chords.length === 0) return [];
+	return Array.from(
+		{ length: section.bars },
+		(_, bar) => section.chords[bar % section.chords.length]
+	);
+}
+
+/**
+ * Gets the number of beats in a bar
+ *
+ * @param timeSignature - e.g. "3/4"
+ * @returns The upper number, or 4 if the signature can't be read
+ */
+export function getBeatsPerBar(timeSignature: string): number {
+	const beats = Number(timeSignature.split("/")[0]);
+	return Number.isInteger(beats) && beats > 0 ? beats : 4;
+}
@@ -0,0 +1,154 @@
+/**
+ * Code Editing Utilities
+ *
+ * Syntax highlighting and line diffs for the in-site Strudel pattern editor.
+ * Both are small enough to run on every keystroke without a dependency.
+ *
+ * @module utils/code
+ */
+
+// =============================================================================
+// SYNTAX HIGHLIGHTING
+// =============================================================================
+
+const KEYWORDS = [
+	"const",
+	"let",
+	"var",
+	"function",
+	"return",
+	"if",
+	"else",
+	"await",
+	"async",
+	"new",
+	"true",
+	"false",
+	"null",
+	"undefined",
+] as const;
+
+/**
+ * One regex for every token kind, in priority order:
+ * comment, string, `$:` label, keyword, function name, number, operator
+ */
+const TOKEN_REGEX = new RegExp(
+	[
+		/(\/\/[^\n]*)/.source,
+		/("(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|`(?:[^`\\]|\\.)*`)/.source,
+		/(\$:)/.source,
+		`\\b(${KEYWORDS.join("|")})\\b`,
+		/([A-Za-z_$][\w$]*)(?=\s*\()/.source,
+		/((?<![\w$])\d*\.?\d+)/.source,
+		/([=+\-*/<>!&|?]+)/.source,
+	].join("|"),
+	"g"
+);
+
+/** CSS class for each capture group of `TOKEN_REGEX` (see styles/terminal.css) */
+const TOKEN_CLASSES = [
+	"code-line-comment",
+	"code-string",
+	"code-variable",
+	"code-keyword",
+	"code-function",
+	"code-number",
+	"code-operator",
+] as const;
+
+/**
+ * Escapes text for safe insertion into HTML
+ */
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+/**
+ * Highlights Strudel/JavaScript code as HTML
+ *
+ * @param code - The pattern code
+ * @returns Escaped HTML with tokens wrapped in `code-*` spans
+ *
+ * @example
+ * ```ts
+ * highlightStrudel('$: s("bd")');
+ * // '<span class="code-variable">$:</span> <span class="code-function">s</span>(...'
+ * ```
+ */
+export function highlightStrudel(code: string): string {
+	let html = "";
+	let lastIndex = 0;
+
+	for (const match of code.matchAll(TOKEN_REGEX)) {
+		const groupIndex = match.slice(1).findIndex((group) => group !== undefined);
+		html += escapeHtml(code.slice(lastIndex, match.index));
+		html += `<span class="${TOKEN_CLASSES[groupIndex]}">${escapeHtml(match[0])}</span>`;
+		lastIndex = match.index + match[0].length;
+	}
+
+	return html + escapeHtml(code.slice(lastIndex));
+}
+
+// =============================================================================
+// LINE DIFF
+// =============================================================================
+
+/**
+ * A line in a diff between two texts
+ */
+export interface DiffLine {
+	readonly type: "unchanged" | "added" | "removed";
+	readonly text: string;
+}
+
+/**
+ * Diffs two texts line by line (longest common subsequence)
+ *
+ * @param original - The text before editing
+ * @param edited - The text after editing
+ * @returns Lines in order, each marked unchanged, added or removed
+ *
+ * @example
+ * ```ts
+ * diffLines("a\nb", "a\nc");
+ * // [{ type: "unchanged", text: "a" }, { type: "removed", text: "b" }, { type: "added", text: "c" }]
+ * ```
+ */
+export function diffLines(original: string, edited: string): readonly DiffLine[] {
+	const before = original.split("\n");
+	const after = edited.split("\n");
+
+	// lcs[i][j] = length of the common subsequence of before[i..] and after[j..]
+	const lcs = Array.from({ length: before.length + 1 }, () =>
+		new Array<number>(after.length + 1).fill(0)
+	);
+	for (let i = before.length - 1; i >= 0; i--) {
+		for (let j = after.length - 1; j >= 0; j--) {
+			lcs[i][j] =
+				before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+		}
+	}
+
+	const lines: DiffLine[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < before.length && j < after.length) {
+		if (before[i] === after[j]) {
+			lines.push({ type: "unchanged", text: before[i] });
+			i++;
+			j++;
+		} else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+			lines.push({ type: "removed", text: before[i++] });
+		} else {
+			lines.push({ type: "added", text: after[j++] });
+		}
+	}
+	while (i < before.length) lines.push({ type: "removed", text: before[i++] });
+	while (j < after.length) lines.push({ type: "added", text: after[j++] });
+
+	return lines;
+}
@@ -0,0 +1,250 @@
+/**
+ * Feed Utilities
+ *
+ * Renders the site's feed entries as RSS 2.0, Atom 1.0 and JSON Feed 1.1.
+ * Entries are written the same way in each format: a permalink, the
+ * summary and HTML content, an enclosure (e.g. cover art), an author
+ * and related links (e.g. streaming platforms).
+ *
+ * @module utils/feed
+ */
+
+import type { FeedItem } from "../types";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A feed's own details
+ */
+export interface FeedChannel {
+	readonly title: string;
+	readonly description: string;
+	/** Absolute URL of the site */
+	readonly siteUrl: string;
+	/** Language code, e.g. "en" */
+	readonly language: string;
+	/** Absolute URL of an icon for the feed */
+	readonly icon?: string;
+	/** Absolute URLs the feed is published at */
+	readonly feedUrls: {
+		readonly rss: string;
+		readonly atom: string;
+		readonly json: string;
+	};
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Escapes text for safe insertion into XML
+ */
+function escapeXml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+/**
+ * Builds an entry's HTML content: an image, the text and a list of links
+ *
+ * @param content - Image (absolute URL and alt text), plain text and links
+ * @returns HTML for the entry's `contentHtml`
+ *
+ * @example
+ * ```ts
+ * buildFeedContent({
+ * 	image: { url: coverUrl, alt: "Asha cover art" },
+ * 	text: release.description,
+ * 	links: [{ title: "Spotify", url: release.spotifyUrl }],
+ * });
+ * ```
+ */
+export function buildFeedContent(content: {
+	readonly image?: { readonly url: string; readonly alt: string };
+	readonly text: string;
+	readonly links: FeedItem["links"];
+}): string {
+	const image = content.image
+		? `<p><img src="${escapeXml(content.image.url)}" alt="${escapeXml(content.image.alt)}" /></p>`
+		: "";
+	const links =
+		content.links.length > 0
+			? `<ul>${content.links
+					.map((link) => `<li><a href="${escapeXml(link.url)}">${escapeXml(link.title)}</a></li>`)
+					.join("")}</ul>`
+			: "";
+	return `${image}<p>${escapeXml(content.text)}</p>${links}`;
+}
+
+/**
+ * Converts a YYYY-MM-DD date to an ISO 8601 timestamp at midnight UTC
+ */
+function toTimestamp(date: string): string {
+	return new Date(`${date}T00:00:00Z`).toISOString();
+}
+
+/**
+ * Gets the newest entry's date, so the feed only changes when an entry does
+ */
+function getUpdated(items: readonly FeedItem[]): string | undefined {
+	return items.reduce<string | undefined>(
+		(latest, item) => (latest === undefined || item.date > latest ? item.date : latest),
+		undefined
+	);
+}
+
+// =============================================================================
+// FORMATS
+// =============================================================================
+
+/**
+ * Renders an RSS 2.0 feed
+ *
+ * @param channel - The feed's details
+ * @param items - Entries, newest first
+ * @returns The feed as XML
+ *
+ * @example
+ * ```ts
+ * new Response(renderRss(feedChannel, feedItems), {
+ * 	headers: { "Content-Type": "application/rss+xml; charset=utf-8" },
+ * });
+ * ```
+ */
+export function renderRss(channel: FeedChannel, items: readonly FeedItem[]): string {
+	const updated = getUpdated(items);
+	const entries = items.map(
+		(item) => `
+		<item>
+			<title>${escapeXml(item.title)}</title>
+			<link>${escapeXml(item.url)}</link>
+			<guid isPermaLink="true">${escapeXml(item.url)}</guid>
+			<pubDate>${new Date(toTimestamp(item.date)).toUTCString()}</pubDate>
+			<description>${escapeXml(item.summary)}</description>
+			<content:encoded>${escapeXml(item.contentHtml)}</content:encoded>${
+				item.author ? `\n\t\t\t<dc:creator>${escapeXml(item.author.name)}</dc:creator>` : ""
+			}${item.categories
+				.map((category) => `\n\t\t\t<category>${escapeXml(category)}</category>`)
+				.join("")}${
+				item.enclosure
+					? `\n\t\t\t<enclosure url="${escapeXml(item.enclosure.url)}" length="${item.enclosure.length}" type="${escapeXml(item.enclosure.type)}" />`
+					: ""
+			}
+		</item>`
+	);
+
+	return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+	<channel>
+		<title>${escapeXml(channel.title)}</title>
+		<link>${escapeXml(channel.siteUrl)}</link>
+		<description>${escapeXml(channel.description)}</description>
+		<language>${escapeXml(channel.language)}</language>
+		<atom:link href="${escapeXml(channel.feedUrls.rss)}" rel="self" type="application/rss+xml" />${
+			updated
+				? `\n\t\t<lastBuildDate>${new Date(toTimestamp(updated)).toUTCString()}</lastBuildDate>`
+				: ""
+		}${entries.join("")}
+	</channel>
+</rss>
+`;
+}
+
+/**
+ * Renders an Atom 1.0 feed
+ *
+ * @param channel - The feed's details
+ * @param items - Entries, newest first
+ * @returns The feed as XML
+ */
+export function renderAtom(channel: FeedChannel, items: readonly FeedItem[]): string {
+	const updated = getUpdated(items);
+	const entries = items.map(
+		(item) => `
+	<entry>
+		<title>${escapeXml(item.title)}</title>
+		<id>${escapeXml(item.url)}</id>
+		<link rel="alternate" type="text/html" href="${escapeXml(item.url)}" />${
+			item.author
+				? `\n\t\t<author><name>${escapeXml(item.author.name)}</name><uri>${escapeXml(item.author.url)}</uri></author>`
+				: ""
+		}${item.links
+			.map(
+				(link) =>
+					`\n\t\t<link rel="related" title="${escapeXml(link.title)}" href="${escapeXml(link.url)}" />`
+			)
+			.join("")}${
+			item.enclosure
+				? `\n\t\t<link rel="enclosure" type="${escapeXml(item.enclosure.type)}" length="${item.enclosure.length}" href="${escapeXml(item.enclosure.url)}" />`
+				: ""
+		}
+		<published>${toTimestamp(item.date)}</published>
+		<updated>${toTimestamp(item.date)}</updated>
+		<summary>${escapeXml(item.summary)}</summary>
+		<content type="html">${escapeXml(item.contentHtml)}</content>${item.categories
+			.map((category) => `\n\t\t<category term="${escapeXml(category)}" />`)
+			.join("")}
+	</entry>`
+	);
+
+	return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${escapeXml(channel.language)}">
+	<title>${escapeXml(channel.title)}</title>
+	<subtitle>${escapeXml(channel.description)}</subtitle>
+	<id>${escapeXml(channel.siteUrl)}</id>
+	<link rel="alternate" type="text/html" href="${escapeXml(channel.siteUrl)}" />
+	<link rel="self" type="application/atom+xml" href="${escapeXml(channel.feedUrls.atom)}" />
+	<updated>${toTimestamp(updated ?? "1970-01-01")}</updated>
+	<author><name>${escapeXml(channel.title)}</name></author>${
+		channel.icon ? `\n\t<icon>${escapeXml(channel.icon)}</icon>` : ""
+	}${entries.join("")}
+</feed>
+`;
+}
+
+/**
+ * Renders a JSON Feed 1.1 feed
+ *
+ * @param channel - The feed's details
+ * @param items - Entries, newest first
+ * @returns The feed as JSON
+ */
+export function renderJsonFeed(channel: FeedChannel, items: readonly FeedItem[]): string {
+	return JSON.stringify({
+		version: "https://jsonfeed.org/version/1.1",
+		title: channel.title,
+		description: channel.description,
+		home_page_url: channel.siteUrl,
+		feed_url: channel.feedUrls.json,
+		language: channel.language,
+		...(channel.icon && { icon: channel.icon }),
+		authors: [{ name: channel.title, url: channel.siteUrl }],
+		items: items.map((item) => ({
+			id: item.url,
+			url: item.url,
+			...(item.links[0] && { external_url: item.links[0].url }),
+			title: item.title,
+			summary: item.summary,
+			content_html: item.contentHtml,
+			...(item.enclosure && { image: item.enclosure.url }),
+			date_published: toTimestamp(item.date),
+			...(item.author && { authors: [{ name: item.author.name, url: item.author.url }] }),
+			tags: item.categories,
+			...(item.enclosure && {
+				attachments: [
+					{
+						url: item.enclosure.url,
+						mime_type: item.enclosure.type,
+						size_in_bytes: item.enclosure.length,
+					},
+				],
+			}),
+		})),
+	});
+}
@@ -10,6 +10,9 @@
  * import { buildUrl, validateRelease, sanitizeUrl } from "@utils/index";
  * import { memoize, debounce, throttle } from "@utils/performance";
  * import { getImageAttributes, buildImagePath } from "@utils/image";
+ * import { buildStrudelUrl, parseStrudelUrl } from "@utils/strudel";
+ * import { highlightStrudel, diffLines } from "@utils/code";
+ * import { compileStrudelPattern, StrudelEngine } from "@utils/strudel-engine";
  * ```
  */
 
@@ -17,3 +20,18 @@ export * from "./url";
 export * from "./validation";
 export * from "./performance";
 export * from "./image";
+export * from "./strudel";
+export * from "./code";
+export * from "./mini-notation";
+export * from "./strudel-engine";
+export * from "./pattern-analysis";
+export * from "./audio";
+export * from "./lyrics";
+export * from "./chords";
+export * from "./offline";
+export * from "./og-image";
+export * from "./structured-data";
+export * from "./feed";
+export * from "./markdown";
+export * from "./posts";
+export * from "./search";
@@ -0,0 +1,157 @@
+/**
+ * Lyrics Utilities
+ *
+ * Parses song lyrics written as plain text with optional LRC-style
+ * timestamps (`[01:23.45] line`), pairs each line with its romanized
+ * transliteration, and finds the line to highlight at a playback time.
+ *
+ * @module utils/lyrics
+ */
+
+import type { SongLyrics } from "../types";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * One line of lyrics, in both scripts
+ */
+export interface LyricLine {
+	/** The line in Nepali script, without its timestamp */
+	readonly text: string;
+	/** The same line romanized, when the song has a transliteration */
+	readonly romanized?: string;
+	/** When the line is sung, in seconds from the start of the song */
+	readonly time?: number;
+	/** Index of the stanza (blank-line separated block) the line is in */
+	readonly stanza: number;
+}
+
+// =============================================================================
+// TIMESTAMPS
+// =============================================================================
+
+/** An LRC timestamp at the start of a line, e.g. `[01:23.45]` */
+export const LRC_TIMESTAMP_REGEX = /^\s*\[(\d+:[0-5]\d(?:\.\d{1,3})?)\]\s*/;
+
+/**
+ * Converts a `m:ss` or `mm:ss.xx` time to seconds
+ *
+ * @param value - The time, as in a song duration or an LRC timestamp
+ * @returns Seconds, or undefined if the value isn't a time
+ *
+ * @example
+ * ```ts
+ * parseTimestamp("3:48"); // 228
+ * parseTimestamp("01:02.50"); // 62.5
+ * ```
+ */
+export function parseTimestamp(value: string): number | undefined {
+	const match = /^(\d+):([0-5]\d(?:\.\d{1,3})?)$/.exec(value.trim());
+	if (!match) return undefined;
+	return Number(match[1]) * 60 + Number(match[2]);
+}
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+/**
+ * Splits lyrics text into stanzas of lines, keeping LRC timestamps
+ */
+function splitLyricLines(text: string): { line: string; time?: number; stanza: number }[] {
+	const lines: { line: string; time?: number; stanza: number }[] = [];
+	let stanza = 0;
+	let previousBlank = false;
+
+	for (const raw of text.split("\n")) {
+		if (raw.trim() === "") {
+			previousBlank = lines.length > 0;
+			continue;
+		}
+		if (previousBlank) stanza += 1;
+		previousBlank = false;
+
+		const match = LRC_TIMESTAMP_REGEX.exec(raw);
+		lines.push({
+			line: (match ? raw.slice(match[0].length) : raw).trim(),
+			time: match ? parseTimestamp(match[1]) : undefined,
+			stanza,
+		});
+	}
+	return lines;
+}
+
+/**
+ * Parses song lyrics into lines, pairing each with its romanization
+ *
+ * Lines are paired by position, ignoring blank lines, so `romanized`
+ * should have the same lines as `text`. Timestamps come from `text`,
+ * falling back to `romanized` when only the transliteration is timed.
+ *
+ * @param lyrics - The song's lyrics
+ * @returns The non-blank lines in order
+ *
+ * @example
+ * ```ts
+ * parseLyrics({ text: "[00:12.00] आशा", romanized: "Asha" });
+ * // [{ text: "आशा", romanized: "Asha", time: 12, stanza: 0 }]
+ * ```
+ */
+export function parseLyrics(lyrics: SongLyrics): readonly LyricLine[] {
+	const romanized = lyrics.romanized ? splitLyricLines(lyrics.romanized) : [];
+
+	return splitLyricLines(lyrics.text).map(({ line, time, stanza }, index) => {
+		const pair = romanized[index];
+		const lineTime = time ?? pair?.time;
+		return {
+			text: line,
+			...(pair && { romanized: pair.line }),
+			...(lineTime !== undefined && { time: lineTime }),
+			stanza,
+		};
+	});
+}
+
+/**
+ * Checks whether every line of parsed lyrics has a timestamp
+ *
+ * @param lines - Parsed lyrics
+ * @returns True if the lyrics can follow playback
+ */
+export function isSyncedLyrics(lines: readonly LyricLine[]): boolean {
+	return lines.length > 0 && lines.every((line) => line.time !== undefined);
+}
+
+/**
+ * Finds the line being sung at a playback time
+ *
+ * @param lines - Parsed, synced lyrics
+ * @param seconds - Time since the start of the song
+ * @returns Index of the current line, or -1 before the first line
+ *
+ * @example
+ * ```ts
+ * getActiveLyricIndex(parseLyrics(song.lyrics), audio.currentTime);
+ * ```
+ */
+export function getActiveLyricIndex(lines: readonly LyricLine[], seconds: number): number {
+	let active = -1;
+	lines.forEach((line, index) => {
+		if (line.time !== undefined && line.time <= seconds) active = index;
+	});
+	return active;
+}
+
+/**
+ * Gets lyrics as plain text in both scripts, without timestamps
+ *
+ * @param lyrics - The song's lyrics
+ * @returns Nepali and romanized lines, for search indexing
+ */
+export function getLyricsPlainText(lyrics: SongLyrics): string {
+	return parseLyrics(lyrics)
+		.map((line) => [line.text, line.romanized].filter(Boolean).join("\n"))
+		.join("\n");
+}
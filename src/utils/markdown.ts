@@ -0,0 +1,40 @@
+/**
+ * Markdown Utilities
+ *
+ * Turns Markdown and MDX bodies, e.g. news posts and member bios, into
+ * plain text for search, feeds and structured data.
+ *
+ * @module utils/markdown
+ */
+
+// =============================================================================
+// TEXT
+// =============================================================================
+
+/**
+ * Strips Markdown and MDX syntax from a body, keeping the words
+ *
+ * Code blocks are kept, since tutorials are read through them too.
+ * MDX `import`/`export` lines and component tags are dropped.
+ *
+ * @param body - The Markdown or MDX source
+ * @returns The text, with runs of whitespace collapsed
+ *
+ * @example
+ * ```ts
+ * getMarkdownPlainText("## Day one\n\nWe played **Asha** at [Purple Haze](https://example.com)");
+ * // "Day one We played Asha at Purple Haze"
+ * ```
+ */
+export function getMarkdownPlainText(body: string): string {
+	return body
+		.replace(/^(import|export)\s.*$/gm, "")
+		.replace(/^```.*$/gm, "")
+		.replace(/<\/?[A-Za-z][^>]*>/g, " ")
+		.replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+		.replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+		.replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, "")
+		.replace(/[*_~`]+/g, "")
+		.replace(/\s+/g, " ")
+		.trim();
+}
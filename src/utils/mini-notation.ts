@@ -0,0 +1,296 @@
+/**
+ * Mini-Notation Utilities
+ *
+ * Parses the subset of Strudel's mini-notation our patterns use (the
+ * strings inside `s("...")` and `note("...")`) and queries the events it
+ * produces over time. Time is measured in cycles.
+ *
+ * Supported syntax: space-separated steps, `~` rests, `[ ]` subsequences,
+ * `< >` alternation, `,` for stacked layers (chords) and `*n` / `/n` speed.
+ *
+ * @module utils/mini-notation
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A node in a parsed mini-notation string
+ */
+export type MiniNode =
+	| { readonly type: "atom"; readonly value: string }
+	| { readonly type: "rest" }
+	| { readonly type: "sequence"; readonly steps: readonly MiniNode[] }
+	| { readonly type: "alternation"; readonly options: readonly MiniNode[] }
+	| { readonly type: "stack"; readonly layers: readonly MiniNode[] }
+	| { readonly type: "speed"; readonly node: MiniNode; readonly factor: number };
+
+/**
+ * An event produced by a mini-notation pattern
+ */
+export interface MiniEvent {
+	/** Onset, in cycles */
+	readonly begin: number;
+	/** End, in cycles */
+	readonly end: number;
+	/** The atom, e.g. "bd", "sd:3" or "a3" */
+	readonly value: string;
+}
+
+/**
+ * Result of parsing a mini-notation string
+ */
+export type MiniParseResult =
+	| { readonly success: true; readonly node: MiniNode }
+	| { readonly success: false; readonly error: string; readonly position: number };
+
+// =============================================================================
+// PARSER
+// =============================================================================
+
+const ATOM_REGEX = /[\w#.:-]/;
+
+/**
+ * Parses a mini-notation string
+ *
+ * @param source - The mini-notation, e.g. `"[bd ~ bd ~] <sd sd:3>"`
+ * @returns The parsed node, or an error and the index in `source` where it was found
+ *
+ * @example
+ * ```ts
+ * const result = parseMiniNotation("bd*2 [~ sd]");
+ * if (result.success) queryMiniNotation(result.node, 0, 1);
+ * ```
+ */
+export function parseMiniNotation(source: string): MiniParseResult {
+	let index = 0;
+	let errorPosition = 0;
+
+	const fail = (message: string, position = index): never => {
+		errorPosition = position;
+		throw new Error(message);
+	};
+
+	const skipSpace = () => {
+		while (index < source.length && /\s/.test(source[index])) index++;
+	};
+
+	const parseNumber = (): number => {
+		const match = source.slice(index).match(/^\d*\.?\d+/);
+		if (!match) return fail("expected a number");
+		index += match[0].length;
+		return Number(match[0]);
+	};
+
+	const parseModifiers = (node: MiniNode): MiniNode => {
+		let result = node;
+		while (source[index] === "*" || source[index] === "/") {
+			const operator = source[index++];
+			const amount = parseNumber();
+			if (amount === 0) fail("speed factor can't be zero", index - 1);
+			result = { type: "speed", node: result, factor: operator === "*" ? amount : 1 / amount };
+		}
+		return result;
+	};
+
+	// Steps up to a closing bracket, split into layers on ","
+	const parseLayers = (closing: string, opening = index - 1): MiniNode[][] => {
+		const layers: MiniNode[][] = [[]];
+		for (;;) {
+			skipSpace();
+			const char = source[index];
+			if (char === undefined) {
+				if (closing) fail(`unbalanced "${source[opening]}": missing "${closing}"`, opening);
+				return layers;
+			}
+			if (char === closing) {
+				index++;
+				return layers;
+			}
+			if (char === ",") {
+				index++;
+				layers.push([]);
+				continue;
+			}
+			layers[layers.length - 1].push(parseStep());
+		}
+	};
+
+	const toSequence = (steps: MiniNode[]): MiniNode =>
+		steps.length === 1 ? steps[0] : { type: "sequence", steps };
+
+	const parseStep = (): MiniNode => {
+		const char = source[index];
+
+		if (char === "~") {
+			index++;
+			return parseModifiers({ type: "rest" });
+		}
+		if (char === "[") {
+			index++;
+			const layers = parseLayers("]").map(toSequence);
+			return parseModifiers(layers.length === 1 ? layers[0] : { type: "stack", layers });
+		}
+		if (char === "<") {
+			index++;
+			const opening = index - 1;
+			const layers = parseLayers(">");
+			if (layers.length > 1) fail('"," inside "< >" is not supported', opening);
+			return parseModifiers({ type: "alternation", options: layers[0] });
+		}
+		if (ATOM_REGEX.test(char)) {
+			const start = index;
+			while (index < source.length && ATOM_REGEX.test(source[index])) index++;
+			return parseModifiers({ type: "atom", value: source.slice(start, index) });
+		}
+
+		if (char === "]" || char === ">") return fail(`unbalanced "${char}"`);
+		return fail(`unsupported character "${char}"`);
+	};
+
+	try {
+		const layers = parseLayers("").map(toSequence);
+		const node: MiniNode = layers.length === 1 ? layers[0] : { type: "stack", layers };
+		return { success: true, node };
+	} catch (error) {
+		return { success: false, error: (error as Error).message, position: errorPosition };
+	}
+}
+
+// =============================================================================
+// QUERYING
+// =============================================================================
+
+/**
+ * Gets the events whose onsets fall in a time span
+ *
+ * Consecutive spans never return the same event twice, so a scheduler can
+ * query window by window.
+ *
+ * @param node - A parsed mini-notation node
+ * @param begin - Start of the span, in cycles (inclusive)
+ * @param end - End of the span, in cycles (exclusive)
+ * @returns Events in the span, unordered
+ *
+ * @example
+ * ```ts
+ * queryMiniNotation(node, 0, 1); // one cycle of events
+ * ```
+ */
+export function queryMiniNotation(node: MiniNode, begin: number, end: number): MiniEvent[] {
+	if (end <= begin) return [];
+
+	switch (node.type) {
+		case "rest":
+			return [];
+
+		case "atom": {
+			const events: MiniEvent[] = [];
+			for (let cycle = Math.ceil(begin); cycle < end; cycle++) {
+				events.push({ begin: cycle, end: cycle + 1, value: node.value });
+			}
+			return events;
+		}
+
+		case "stack":
+			return node.layers.flatMap((layer) => queryMiniNotation(layer, begin, end));
+
+		case "speed":
+			return queryMiniNotation(node.node, begin * node.factor, end * node.factor).map((event) => ({
+				...event,
+				begin: event.begin / node.factor,
+				end: event.end / node.factor,
+			}));
+
+		// `<a b c>` plays one option per cycle: `[a b c]` slowed down by its length
+		case "alternation":
+			return queryMiniNotation(
+				{
+					type: "speed",
+					node: { type: "sequence", steps: node.options },
+					factor: 1 / node.options.length,
+				},
+				begin,
+				end
+			);
+
+		case "sequence": {
+			const count = node.steps.length;
+			const events: MiniEvent[] = [];
+
+			for (let cycle = Math.floor(begin); cycle < end; cycle++) {
+				node.steps.forEach((step, stepIndex) => {
+					const stepBegin = cycle + stepIndex / count;
+					const low = Math.max(begin, stepBegin);
+					const high = Math.min(end, cycle + (stepIndex + 1) / count);
+					if (high <= low) return;
+
+					// Each step plays one cycle of its child, squeezed into the step
+					const toChild = (time: number) => cycle + (time - stepBegin) * count;
+					const fromChild = (time: number) => stepBegin + (time - cycle) / count;
+
+					for (const event of queryMiniNotation(step, toChild(low), toChild(high))) {
+						events.push({ ...event, begin: fromChild(event.begin), end: fromChild(event.end) });
+					}
+				});
+			}
+			return events;
+		}
+	}
+}
+
+/**
+ * Lists every atom in a parsed node, left to right
+ *
+ * @param node - A parsed mini-notation node
+ * @returns The atom values, including repeats
+ */
+export function getMiniAtoms(node: MiniNode): readonly string[] {
+	switch (node.type) {
+		case "atom":
+			return [node.value];
+		case "rest":
+			return [];
+		case "sequence":
+			return node.steps.flatMap(getMiniAtoms);
+		case "alternation":
+			return node.options.flatMap(getMiniAtoms);
+		case "stack":
+			return node.layers.flatMap(getMiniAtoms);
+		case "speed":
+			return getMiniAtoms(node.node);
+	}
+}
+
+// =============================================================================
+// NOTES
+// =============================================================================
+
+const NOTE_SEMITONES: Record<string, number> = { c: 0, d: 2, e: 4, f: 5, g: 7, a: 9, b: 11 };
+
+/**
+ * Converts a note atom to a MIDI note number
+ *
+ * Accepts note names with an optional accidental (`#`/`s` sharp, `b`/`f`
+ * flat) and octave, defaulting to octave 3 as Strudel does, or plain numbers.
+ *
+ * @param note - The atom, e.g. "a3", "fs2", "bb0", "c#4" or "60"
+ * @returns The MIDI note number, or undefined if the atom isn't a note
+ *
+ * @example
+ * ```ts
+ * noteToMidi("a4"); // 69
+ * noteToMidi("c"); // 48
+ * ```
+ */
+export function noteToMidi(note: string): number | undefined {
+	if (/^-?\d+(\.\d+)?$/.test(note)) return Number(note);
+
+	const match = note.match(/^([a-gA-G])(#|s|b|f)?(-?\d+)?$/);
+	if (!match) return undefined;
+
+	const accidental = match[2] === "#" || match[2] === "s" ? 1 : match[2] ? -1 : 0;
+	const octave = match[3] === undefined ? 3 : Number(match[3]);
+	return (octave + 1) * 12 + NOTE_SEMITONES[match[1].toLowerCase()] + accidental;
+}
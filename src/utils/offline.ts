@@ -0,0 +1,209 @@
+/**
+ * Offline Song Utilities
+ *
+ * Saves Play Along songs for offline use: the song's record (pattern, tempo
+ * and titles), its cover art and the drum machine samples its pattern plays
+ * go into a cache the service worker manages. Pages read the cache directly
+ * and ask the worker to add or remove songs.
+ *
+ * Only patterns the local engine plays can be saved; the strudel.cc embed
+ * always needs a connection.
+ *
+ * @module utils/offline
+ */
+
+import type { OfflineSong } from "../types";
+import type { ServiceWorkerMessage, ServiceWorkerReply } from "../service-worker/sw";
+import { EXTERNAL_URLS, OFFLINE_SONGS } from "../constants";
+import { compileStrudelPattern, getProgramSampleKeys, type StrudelEngine } from "./strudel-engine";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Storage used by saved songs and by the site as a whole
+ */
+export interface OfflineStorage {
+	/** Bytes held by saved songs */
+	readonly bytes: number;
+	/** Bytes the site stores in total, when the browser reports it */
+	readonly usage?: number;
+	/** Bytes the site may store, when the browser reports it */
+	readonly quota?: number;
+}
+
+// =============================================================================
+// SERVICE WORKER
+// =============================================================================
+
+/**
+ * Checks whether songs can be saved: needs the Cache API and an active service worker
+ *
+ * @returns False during development, where there's no service worker
+ */
+export function canSaveOffline(): boolean {
+	return (
+		typeof window !== "undefined" &&
+		"caches" in window &&
+		"serviceWorker" in navigator &&
+		navigator.serviceWorker.controller !== null
+	);
+}
+
+/**
+ * Sends a message to the service worker and waits for its reply
+ */
+function postToServiceWorker(message: ServiceWorkerMessage): Promise<ServiceWorkerReply> {
+	const worker = navigator.serviceWorker.controller;
+	if (!worker) return Promise.resolve({ ok: false, error: "Offline saving isn't available" });
+
+	return new Promise((resolve) => {
+		const channel = new MessageChannel();
+		channel.port1.onmessage = (event: MessageEvent<ServiceWorkerReply>) => resolve(event.data);
+		worker.postMessage(message, [channel.port2]);
+	});
+}
+
+// =============================================================================
+// SAMPLES
+// =============================================================================
+
+/**
+ * Looks up drum samples in Strudel's drum machine sample map
+ *
+ * @param keys - Sample keys, e.g. "RolandTR909_sd:3"
+ * @returns Sample URLs by key; keys the map doesn't have are left out
+ */
+async function resolveSampleUrls(keys: readonly string[]): Promise<Record<string, string>> {
+	const response = await fetch(EXTERNAL_URLS.STRUDEL_DRUM_MACHINES);
+	if (!response.ok) throw new Error(`Sample map request failed (${response.status})`);
+	const map = (await response.json()) as Record<string, unknown>;
+	const base = typeof map._base === "string" ? map._base : EXTERNAL_URLS.STRUDEL_DRUM_MACHINES;
+
+	const urls: Record<string, string> = {};
+	for (const key of keys) {
+		const [name, index] = key.split(":");
+		const files = map[name];
+		if (!Array.isArray(files) || files.length === 0) continue;
+		// Like strudel.cc, sample numbers wrap around the bank's files
+		urls[key] = new URL(String(files[Number(index) % files.length]), base).href;
+	}
+	return urls;
+}
+
+/**
+ * Loads a saved song's drum samples into the playback engine
+ *
+ * Players only load them while offline (see `StrudelEngine.clearSamples`),
+ * so a song sounds the same online whether or not it's saved.
+ *
+ * @param song - A saved song
+ * @param engine - The engine to play them
+ */
+export async function loadOfflineSamples(song: OfflineSong, engine: StrudelEngine): Promise<void> {
+	const cache = await caches.open(OFFLINE_SONGS.CACHE_NAME);
+	await Promise.all(
+		Object.entries(song.samples).map(async ([key, url]) => {
+			const response = await cache.match(url);
+			if (response) engine.loadSample(key, await response.arrayBuffer());
+		})
+	);
+}
+
+// =============================================================================
+// SAVED SONGS
+// =============================================================================
+
+/**
+ * Saves a song for offline Play Along
+ *
+ * Must be online: the sample map, samples and cover art are downloaded.
+ *
+ * @param song - The song to save
+ * @returns The worker's reply, or why the song can't be saved
+ *
+ * @example
+ * ```ts
+ * const result = await saveSongOffline(song);
+ * if (!result.ok) console.warn(result.error);
+ * ```
+ */
+export async function saveSongOffline(
+	song: Pick<OfflineSong, "id" | "title" | "album" | "coverArt" | "pattern" | "bpm">
+): Promise<ServiceWorkerReply> {
+	const compiled = compileStrudelPattern(song.pattern);
+	if (!compiled.supported) {
+		return { ok: false, error: "This pattern plays on strudel.cc, which needs a connection" };
+	}
+
+	let samples: Record<string, string> = {};
+	const keys = getProgramSampleKeys(compiled.program);
+	if (keys.length > 0) {
+		try {
+			samples = await resolveSampleUrls(keys);
+		} catch {
+			return { ok: false, error: "Couldn't reach the Strudel sample library" };
+		}
+	}
+
+	const record: OfflineSong = {
+		id: song.id,
+		title: song.title,
+		album: song.album,
+		coverArt: song.coverArt,
+		pattern: song.pattern,
+		bpm: song.bpm,
+		samples,
+		savedAt: new Date().toISOString(),
+	};
+	return postToServiceWorker({ type: "SAVE_OFFLINE_SONG", song: record });
+}
+
+/**
+ * Removes a saved song, and any file no other saved song uses
+ *
+ * @param id - The song id
+ * @returns The worker's reply
+ */
+export function removeOfflineSong(id: string): Promise<ServiceWorkerReply> {
+	return postToServiceWorker({ type: "REMOVE_OFFLINE_SONG", id });
+}
+
+/**
+ * Lists saved songs
+ *
+ * @returns Saved songs, oldest first (empty if the Cache API isn't available)
+ */
+export async function getOfflineSongs(): Promise<OfflineSong[]> {
+	if (typeof caches === "undefined") return [];
+	const cache = await caches.open(OFFLINE_SONGS.CACHE_NAME);
+	const records = (await cache.keys()).filter((request) =>
+		new URL(request.url).pathname.startsWith(OFFLINE_SONGS.RECORD_PATH)
+	);
+	const songs = await Promise.all(
+		records.map(async (request) => (await cache.match(request))?.json() as Promise<OfflineSong>)
+	);
+	return songs.filter(Boolean).sort((a, b) => a.savedAt.localeCompare(b.savedAt));
+}
+
+/**
+ * Measures the storage saved songs use
+ *
+ * @returns Bytes held by saved songs, with the site's overall usage and quota when known
+ */
+export async function getOfflineStorage(): Promise<OfflineStorage> {
+	if (typeof caches === "undefined") return { bytes: 0 };
+	const cache = await caches.open(OFFLINE_SONGS.CACHE_NAME);
+	const sizes = await Promise.all(
+		(await cache.keys()).map(
+			async (request) => (await (await cache.match(request))?.blob())?.size ?? 0
+		)
+	);
+	const estimate = await navigator.storage?.estimate?.();
+	return {
+		bytes: sizes.reduce((sum, size) => sum + size, 0),
+		usage: estimate?.usage,
+		quota: estimate?.quota,
+	};
+}
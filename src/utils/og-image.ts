@@ -0,0 +1,236 @@
+/**
+ * Open Graph Image Utilities
+ *
+ * Draws social preview cards as SVG in the site's terminal style: a circuit
+ * background, a shell prompt, the title and, for songs and band members, a
+ * terminal window of code. `pages/og/[...slug].png.ts` rasterizes them.
+ *
+ * Text is set in a monospace font, so lines are wrapped by character count.
+ *
+ * @module utils/og-image
+ */
+
+import type { OgCard } from "../types";
+import { COLORS, OG_IMAGE } from "../constants";
+
+// =============================================================================
+// LAYOUT
+// =============================================================================
+
+const FONT_FAMILY = "'JetBrains Mono', 'DejaVu Sans Mono', monospace";
+
+/** Width of a monospace character, as a fraction of the font size */
+const CHAR_WIDTH = 0.6;
+
+const PADDING = 72;
+const COVER_GAP = 56;
+
+const PROMPT_SIZE = 24;
+const TITLE_SIZE = 64;
+const TITLE_MAX_LINES = 2;
+const SUBTITLE_SIZE = 28;
+const SUBTITLE_MAX_LINES = 2;
+const CODE_SIZE = 20;
+const CODE_LINE_HEIGHT = CODE_SIZE * 1.4;
+const CODE_MAX_LINES = 8;
+/** Space above and below a terminal window's lines */
+const TERMINAL_CHROME = 56;
+const TAB_WIDTH = 2;
+
+// =============================================================================
+// TEXT
+// =============================================================================
+
+/**
+ * Escapes text for safe insertion into SVG
+ */
+function escapeXml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+/**
+ * Shortens a line to a number of characters, ending it with an ellipsis
+ */
+function truncate(line: string, maxChars: number): string {
+	return line.length > maxChars ? `${line.slice(0, maxChars - 1).trimEnd()}…` : line;
+}
+
+/**
+ * Wraps text at word boundaries
+ *
+ * @param text - The text to wrap
+ * @param maxChars - Characters per line
+ * @param maxLines - Lines to keep; the last is truncated if there's more
+ * @returns The lines
+ *
+ * @example
+ * ```ts
+ * wrapText("Engineers making music", 12, 2); // ["Engineers", "making music"]
+ * ```
+ */
+export function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+	const lines: string[] = [];
+	for (const word of text.trim().split(/\s+/)) {
+		const last = lines.at(-1);
+		if (last !== undefined && last.length + 1 + word.length <= maxChars) {
+			lines[lines.length - 1] = `${last} ${word}`;
+		} else {
+			lines.push(word);
+		}
+	}
+
+	if (lines.length <= maxLines) return lines.map((line) => truncate(line, maxChars));
+	const kept = lines.slice(0, maxLines);
+	kept[maxLines - 1] = truncate(`${kept[maxLines - 1]} ${lines[maxLines]}`, maxChars);
+	return kept.map((line) => truncate(line, maxChars));
+}
+
+/**
+ * Takes the first lines of a block of code, keeping its indentation
+ *
+ * Comment-only lines are left out and runs of blank lines become one.
+ *
+ * @param code - The code, e.g. a Strudel pattern
+ * @param maxChars - Characters per line
+ * @param maxLines - Lines to keep; an ellipsis line replaces the rest
+ * @returns The lines
+ *
+ * @example
+ * ```ts
+ * getCodeSnippet('// Drums\nstack(\n\ts("bd*4"),\n)', 40, 6); // ["stack(", '  s("bd*4"),', ")"]
+ * ```
+ */
+export function getCodeSnippet(code: string, maxChars: number, maxLines: number): string[] {
+	const lines = code
+		.replace(/\t/g, " ".repeat(TAB_WIDTH))
+		.split("\n")
+		.map((line) => line.trimEnd())
+		.filter((line) => !line.trimStart().startsWith("//"))
+		.filter((line, i, all) => line !== "" || all[i - 1] !== "");
+	while (lines.length > 0 && lines[0] === "") lines.shift();
+	while (lines.length > 0 && lines.at(-1) === "") lines.pop();
+
+	if (lines.length > maxLines) {
+		lines.length = maxLines - 1;
+		while (lines.at(-1) === "") lines.pop();
+		lines.push("…");
+	}
+	return lines.map((line) => truncate(line, maxChars));
+}
+
+/**
+ * Draws lines of text, one `<tspan>` each
+ */
+function textLines(
+	lines: readonly string[],
+	x: number,
+	y: number,
+	lineHeight: number,
+	attributes: string
+): string {
+	const spans = lines
+		.map((line, i) => `<tspan x="${x}" y="${y + i * lineHeight}">${escapeXml(line)}</tspan>`)
+		.join("");
+	return `<text xml:space="preserve" font-family="${FONT_FAMILY}" ${attributes}>${spans}</text>`;
+}
+
+// =============================================================================
+// CARD
+// =============================================================================
+
+/** The site's circuit and grid background patterns (see tailwind.config.cjs) */
+const BACKGROUND = `
+	<pattern id="grid" width="40" height="40" patternUnits="userSpaceOnUse">
+		<path d="M0 20h40M20 0v40" fill="none" stroke="${COLORS.INZIES_BLUE}" stroke-opacity="0.12" />
+	</pattern>
+	<pattern id="circuit" width="60" height="60" patternUnits="userSpaceOnUse">
+		<path d="M36 34v-4h-2v4h-4v2h4v4h2v-4h4v-2h-4zm0-30V0h-2v4h-4v2h4v4h2V6h4V4h-4zM6 34v-4H4v4H0v2h4v4h2v-4h4v-2H6zM6 4V0H4v4H0v2h4v4h2V6h4V4H6z" fill="${COLORS.INZIES_ORANGE}" fill-opacity="0.12" />
+	</pattern>
+	<linearGradient id="accent" x1="0" x2="1">
+		<stop offset="0" stop-color="${COLORS.INZIES_ORANGE}" />
+		<stop offset="1" stop-color="${COLORS.INZIES_BLUE}" />
+	</linearGradient>`;
+
+/**
+ * Gets the shell command shown above the title, e.g. "cat music/single-asha"
+ */
+function promptCommand(card: OgCard): string {
+	if (card.kind !== "page") return `cat ${card.slug}`;
+	return card.slug === "index" ? "ls" : `cd ${card.slug}`;
+}
+
+/**
+ * Draws a terminal window of code
+ */
+function terminalWindow(lines: readonly string[], x: number, y: number, width: number): string {
+	const height = TERMINAL_CHROME + lines.length * CODE_LINE_HEIGHT;
+	const dots = [COLORS.INZIES_ORANGE, COLORS.INZIES_BLUE, COLORS.INZIES_ACCENT]
+		.map((color, i) => `<circle cx="${x + 24 + i * 22}" cy="${y + 20}" r="6" fill="${color}" />`)
+		.join("");
+
+	return `
+	<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="12" fill="${COLORS.INZIES_BLACK_800}" stroke="${COLORS.INZIES_BLACK_700}" stroke-width="2" />
+	${dots}
+	${textLines(lines, x + 24, y + 40 + CODE_SIZE, CODE_LINE_HEIGHT, `font-size="${CODE_SIZE}" fill="#D4D4D4"`)}`;
+}
+
+/**
+ * Draws a social preview card
+ *
+ * @param card - The card to draw
+ * @param coverArt - The card's cover art as a data URI, if it has one
+ * @returns An SVG document, `OG_IMAGE.WIDTH` by `OG_IMAGE.HEIGHT`
+ *
+ * @example
+ * ```ts
+ * const svg = renderOgCard(getOgCard("/inzies/music/"));
+ * ```
+ */
+export function renderOgCard(card: OgCard, coverArt?: string): string {
+	const { WIDTH, HEIGHT, COVER_SIZE } = OG_IMAGE;
+	const textWidth = WIDTH - PADDING * 2 - (coverArt ? COVER_SIZE + COVER_GAP : 0);
+	const charsPerLine = (size: number) => Math.floor(textWidth / (size * CHAR_WIDTH));
+
+	const promptY = PADDING + PROMPT_SIZE;
+	const title = wrapText(card.title, charsPerLine(TITLE_SIZE), TITLE_MAX_LINES);
+	const titleY = promptY + 40 + TITLE_SIZE;
+	const subtitle = wrapText(card.subtitle, charsPerLine(SUBTITLE_SIZE), SUBTITLE_MAX_LINES);
+	const subtitleY = titleY + (title.length - 1) * TITLE_SIZE * 1.15 + SUBTITLE_SIZE * 1.8;
+
+	// The terminal window takes whatever room is left below the subtitle
+	const codeY = subtitleY + (subtitle.length - 1) * SUBTITLE_SIZE * 1.4 + 40;
+	const codeLines = Math.min(
+		CODE_MAX_LINES,
+		Math.floor((HEIGHT - PADDING / 2 - codeY - TERMINAL_CHROME) / CODE_LINE_HEIGHT)
+	);
+	const code = card.code
+		? getCodeSnippet(card.code, Math.floor((textWidth - 48) / (CODE_SIZE * CHAR_WIDTH)), codeLines)
+		: [];
+
+	const coverY = (HEIGHT - COVER_SIZE) / 2;
+	const coverX = WIDTH - PADDING - COVER_SIZE;
+	const cover = coverArt
+		? `
+	<clipPath id="cover"><rect x="${coverX}" y="${coverY}" width="${COVER_SIZE}" height="${COVER_SIZE}" rx="16" /></clipPath>
+	<image href="${coverArt}" x="${coverX}" y="${coverY}" width="${COVER_SIZE}" height="${COVER_SIZE}" preserveAspectRatio="xMidYMid slice" clip-path="url(#cover)" />
+	<rect x="${coverX}" y="${coverY}" width="${COVER_SIZE}" height="${COVER_SIZE}" rx="16" fill="none" stroke="${COLORS.INZIES_ORANGE}" stroke-width="3" />`
+		: "";
+
+	return `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}">
+	<defs>${BACKGROUND}
+	</defs>
+	<rect width="${WIDTH}" height="${HEIGHT}" fill="${COLORS.INZIES_BLACK}" />
+	<rect width="${WIDTH}" height="${HEIGHT}" fill="url(#grid)" />
+	<rect width="${WIDTH}" height="${HEIGHT}" fill="url(#circuit)" />
+	${textLines([`~/inzies $ ${promptCommand(card)}`], PADDING, promptY, 0, `font-size="${PROMPT_SIZE}" fill="${COLORS.INZIES_ACCENT}"`)}
+	${textLines(title, PADDING, titleY, TITLE_SIZE * 1.15, `font-size="${TITLE_SIZE}" font-weight="bold" fill="#FFFFFF"`)}
+	${textLines(subtitle, PADDING, subtitleY, SUBTITLE_SIZE * 1.4, `font-size="${SUBTITLE_SIZE}" fill="${COLORS.INZIES_ORANGE}"`)}
+	${code.length > 0 ? terminalWindow(code, PADDING, codeY, textWidth) : ""}
+	${cover}
+	<rect y="${HEIGHT - 10}" width="${WIDTH}" height="10" fill="url(#accent)" />
+</svg>`;
+}
@@ -0,0 +1,213 @@
+/**
+ * Pattern Analysis Utilities
+ *
+ * Derives a pattern's category and difficulty from its code, so songs and
+ * patterns never need them assigned by hand. The analysis is static: it
+ * reads the voices (`s()`, `sound()`, `note()` and `n()` calls), their
+ * mini-notation and their method chains without playing anything.
+ *
+ * @module utils/pattern-analysis
+ */
+
+import type { DifficultyLevel, PatternCategory } from "../types";
+import { STRUDEL_SOUNDS } from "../constants";
+import { noteToMidi, parseMiniNotation, queryMiniNotation, type MiniNode } from "./mini-notation";
+import { blankComments } from "./strudel";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * What a pattern's code reveals about it
+ */
+export interface PatternAnalysis {
+	/** Number of `s()`/`note()` voices */
+	readonly voiceCount: number;
+	/** Voices playing drum samples */
+	readonly percussionVoices: number;
+	/** Voices playing notes or synths */
+	readonly melodicVoices: number;
+	/** Most events any voice plays in one cycle of its mini-notation */
+	readonly maxEventsPerCycle: number;
+	/** Whether any voice uses `< >` alternation */
+	readonly usesAlternation: boolean;
+	/** Whether any voice nests `[ ]` subdivisions */
+	readonly usesSubdivision: boolean;
+	/** Most effect methods (`.lpf()`, `.room()`...) chained on one voice */
+	readonly longestEffectChain: number;
+	/** Highest note any melodic voice plays, as a MIDI number */
+	readonly highestNote?: number;
+	readonly category: PatternCategory;
+	readonly difficulty: DifficultyLevel;
+}
+
+// =============================================================================
+// ANALYSIS
+// =============================================================================
+
+/** A voice-starting call, not a method such as `.s("piano")` */
+const VOICE_CALL_REGEX =
+	/(?<![\w$.])(s|sound|note|n)\s*\(\s*(?:"((?:[^"\\\n]|\\.)*)"|'((?:[^'\\\n]|\\.)*)')?/g;
+
+const METHOD_REGEX = /\.\s*([A-Za-z_$][\w$]*)\s*\(/g;
+
+/** Methods that choose or time sounds rather than shape them */
+const NON_EFFECT_METHODS = ["s", "sound", "bank", "slow", "fast", "n", "note"];
+
+/** Synth names; any other sound is a drum sample */
+const SYNTH_SOUNDS = ["sine", "sawtooth", "saw", "square", "triangle", "tri", "piano"];
+
+/** Melodic patterns that stay below c3 count as bass */
+const BASS_CEILING = 48;
+
+/** Cycles sampled when counting events, enough to see through short `< >` */
+const SAMPLED_CYCLES = 4;
+
+/**
+ * Difficulty points at which a pattern stops being beginner / intermediate
+ */
+const DIFFICULTY_THRESHOLDS = { intermediate: 3, advanced: 5 } as const;
+
+/**
+ * Analyzes pattern code to derive its category and difficulty
+ *
+ * Category: all drum voices is "drums"; all melodic voices is "bass" when
+ * every note sits below c3 and "melody" otherwise; a mix is "full".
+ *
+ * Difficulty adds a point for each of: two or more voices (two for four or
+ * more), a voice with 12+ events per cycle, nested subdivisions, `< >`
+ * alternation, mixing drums with melodic parts, an effect chain of three or
+ * more, and a tempo of 130 BPM or faster. 3+ points is intermediate and 5+
+ * advanced.
+ *
+ * @param code - The Strudel pattern code
+ * @param bpm - The pattern's tempo, if known
+ * @returns The measurements and the derived category and difficulty
+ *
+ * @example
+ * ```ts
+ * analyzePattern('s("bd*2 ~ sd ~")'); // { category: "drums", difficulty: "beginner", ... }
+ * ```
+ */
+export function analyzePattern(code: string, bpm?: number): PatternAnalysis {
+	const source = blankComments(code);
+	const calls = [...source.matchAll(VOICE_CALL_REGEX)];
+
+	let percussionVoices = 0;
+	let melodicVoices = 0;
+	let maxEventsPerCycle = 0;
+	let usesAlternation = false;
+	let usesSubdivision = false;
+	let longestEffectChain = 0;
+	let highestNote: number | undefined;
+
+	calls.forEach((call, index) => {
+		const [, name, doubleQuoted, singleQuoted] = call;
+		const notation = doubleQuoted ?? singleQuoted ?? "";
+
+		// A voice's chain runs until the next voice starts
+		const chain = source.slice(call.index, calls[index + 1]?.index ?? source.length);
+		const methods = [...chain.matchAll(METHOD_REGEX)].map((match) => match[1]);
+		const effects = methods.filter((method) => !NON_EFFECT_METHODS.includes(method));
+		longestEffectChain = Math.max(longestEffectChain, effects.length);
+
+		const parsed = parseMiniNotation(notation);
+		const atoms = parsed.success ? queryAtoms(parsed.node) : { values: [], maxPerCycle: 0 };
+		maxEventsPerCycle = Math.max(maxEventsPerCycle, atoms.maxPerCycle);
+		usesAlternation ||= notation.includes("<");
+		usesSubdivision ||= notation.includes("[");
+
+		const isMelodic =
+			name === "note" ||
+			name === "n" ||
+			atoms.values.some((atom) => SYNTH_SOUNDS.includes(atom.split(":")[0]));
+		if (isMelodic) {
+			melodicVoices++;
+			if (name === "note") {
+				for (const atom of atoms.values) {
+					const midi = noteToMidi(atom);
+					if (midi !== undefined) highestNote = Math.max(highestNote ?? midi, midi);
+				}
+			}
+		} else if (atoms.values.every((atom) => isDrumSound(atom))) {
+			percussionVoices++;
+		}
+	});
+
+	const voiceCount = calls.length;
+	const category: PatternCategory =
+		melodicVoices === 0
+			? "drums"
+			: percussionVoices > 0
+				? "full"
+				: highestNote !== undefined && highestNote < BASS_CEILING
+					? "bass"
+					: "melody";
+
+	const points =
+		(voiceCount >= 4 ? 2 : voiceCount >= 2 ? 1 : 0) +
+		(maxEventsPerCycle >= 12 ? 1 : 0) +
+		(usesSubdivision ? 1 : 0) +
+		(usesAlternation ? 1 : 0) +
+		(category === "full" ? 1 : 0) +
+		(longestEffectChain >= 3 ? 1 : 0) +
+		(bpm !== undefined && bpm >= 130 ? 1 : 0);
+
+	const difficulty: DifficultyLevel =
+		points >= DIFFICULTY_THRESHOLDS.advanced
+			? "advanced"
+			: points >= DIFFICULTY_THRESHOLDS.intermediate
+				? "intermediate"
+				: "beginner";
+
+	return {
+		voiceCount,
+		percussionVoices,
+		melodicVoices,
+		maxEventsPerCycle,
+		usesAlternation,
+		usesSubdivision,
+		longestEffectChain,
+		highestNote,
+		category,
+		difficulty,
+	};
+}
+
+/**
+ * Adds the derived `category` and `difficulty` to a data entry with a `pattern`
+ *
+ * @param entry - Any object with Strudel pattern code and a tempo
+ * @returns The entry with its category and difficulty derived from the pattern
+ */
+export function withPatternAnalysis<T extends { readonly pattern: string; readonly bpm: number }>(
+	entry: T
+): T & { readonly category: PatternCategory; readonly difficulty: DifficultyLevel } {
+	const { category, difficulty } = analyzePattern(entry.pattern, entry.bpm);
+	return { ...entry, category, difficulty };
+}
+
+function isDrumSound(atom: string): boolean {
+	const sound = atom.split(":")[0];
+	return (STRUDEL_SOUNDS as readonly string[]).includes(sound) && !SYNTH_SOUNDS.includes(sound);
+}
+
+/**
+ * Lists the atoms a node plays and its busiest cycle's event count
+ */
+function queryAtoms(node: MiniNode): {
+	values: string[];
+	maxPerCycle: number;
+} {
+	const values = new Set<string>();
+	let maxPerCycle = 0;
+
+	for (let cycle = 0; cycle < SAMPLED_CYCLES; cycle++) {
+		const events = queryMiniNotation(node, cycle, cycle + 1);
+		events.forEach((event) => values.add(event.value));
+		maxPerCycle = Math.max(maxPerCycle, events.length);
+	}
+
+	return { values: [...values], maxPerCycle };
+}
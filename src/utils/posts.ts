@@ -0,0 +1,64 @@
+/**
+ * Post Utilities
+ *
+ * Estimates a news post's reading time and counts the tags used across
+ * posts.
+ *
+ * @module utils/posts
+ */
+
+import type { Post } from "../types";
+import { NEWS } from "../constants";
+import { getMarkdownPlainText } from "./markdown";
+
+// =============================================================================
+// READING TIME
+// =============================================================================
+
+/**
+ * Estimates how long a post takes to read
+ *
+ * @param body - The post's Markdown or MDX source
+ * @param wordsPerMinute - Reading speed
+ * @returns Whole minutes, at least 1
+ *
+ * @example
+ * ```ts
+ * getReadingTime(entry.body ?? ""); // 4
+ * ```
+ */
+export function getReadingTime(
+	body: string,
+	wordsPerMinute: number = NEWS.WORDS_PER_MINUTE
+): number {
+	const text = getMarkdownPlainText(body);
+	const words = text ? text.split(" ").length : 0;
+	return Math.max(1, Math.ceil(words / wordsPerMinute));
+}
+
+// =============================================================================
+// TAGS
+// =============================================================================
+
+/**
+ * Counts how many posts use each tag
+ *
+ * @param posts - The posts to count
+ * @returns Tags with their post counts, most used first, then alphabetically
+ *
+ * @example
+ * ```ts
+ * getTagCounts(posts); // [{ tag: "tour", count: 3 }, { tag: "strudel", count: 1 }]
+ * ```
+ */
+export function getTagCounts(
+	posts: readonly Pick<Post, "tags">[]
+): readonly { tag: string; count: number }[] {
+	const counts = new Map<string, number>();
+	for (const tag of posts.flatMap((post) => post.tags)) {
+		counts.set(tag, (counts.get(tag) ?? 0) + 1);
+	}
+	return [...counts]
+		.map(([tag, count]) => ({ tag, count }))
+		.sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
@@ -0,0 +1,77 @@
+/**
+ * Search Utilities
+ *
+ * Matches a query against the site search index (`data/search`), for the
+ * search page. Every word of the query has to appear in an entry's title
+ * or text, in either script, so "rahar" and "रहर" both find Rahar.
+ *
+ * @module utils/search
+ */
+
+import type { SearchEntry } from "../types";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * An index entry that matches a query
+ */
+export interface SearchResult {
+	readonly entry: SearchEntry;
+	/** The part of the entry's text around the first match, on one line */
+	readonly snippet: string;
+}
+
+// =============================================================================
+// SEARCH
+// =============================================================================
+
+/** Characters of text shown in a snippet */
+const SNIPPET_LENGTH = 120;
+
+/** Characters of text shown before the first match */
+const SNIPPET_LEAD = 30;
+
+/**
+ * Cuts the text around the first of the terms it contains
+ */
+function getSnippet(text: string, terms: readonly string[]): string {
+	const flat = text.replace(/\s+/g, " ").trim();
+	const lower = flat.toLowerCase();
+	const offsets = terms.map((term) => lower.indexOf(term)).filter((offset) => offset !== -1);
+
+	const start = offsets.length > 0 ? Math.max(0, Math.min(...offsets) - SNIPPET_LEAD) : 0;
+	const end = Math.min(flat.length, start + SNIPPET_LENGTH);
+	return `${start > 0 ? "…" : ""}${flat.slice(start, end)}${end < flat.length ? "…" : ""}`;
+}
+
+/**
+ * Searches the site index
+ *
+ * @param index - The site search index
+ * @param query - What the visitor typed; words are matched separately, ignoring case
+ * @returns Matching entries, those with a word in the title first, then in index order
+ *
+ * @example
+ * ```ts
+ * searchSite(searchIndex, "rahar");
+ * // [{ entry: { kind: "release", title: "Rahar", ... }, snippet: "A song about desire…" }, ...]
+ * ```
+ */
+export function searchSite(index: readonly SearchEntry[], query: string): readonly SearchResult[] {
+	const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+	if (terms.length === 0) return [];
+
+	return index
+		.map((entry) => {
+			const title = entry.title.toLowerCase();
+			const text = entry.text.toLowerCase();
+			const matches = terms.every((term) => title.includes(term) || text.includes(term));
+			const titleMatches = terms.filter((term) => title.includes(term)).length;
+			return { entry, matches, titleMatches };
+		})
+		.filter(({ matches }) => matches)
+		.sort((a, b) => b.titleMatches - a.titleMatches)
+		.map(({ entry }) => ({ entry, snippet: getSnippet(entry.text, terms) }));
+}
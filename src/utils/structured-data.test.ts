@@ -0,0 +1,229 @@
+/**
+ * Structured Data Tests
+ *
+ * Checks what the JSON-LD builders produce, serialized as pages publish it,
+ * against the schema.org vocabulary subset in `validateStructuredData`.
+ */
+
+import { describe, expect, it } from "vitest";
+import type { BandMember, JsonLdNode, Release } from "../types";
+import {
+	buildMusicAlbum,
+	buildMusicGroup,
+	buildMusicRecording,
+	buildPerson,
+	SCHEMA_ORG_CONTEXT,
+	serializeJsonLd,
+	toIsoDuration,
+	type JsonLdSite,
+	type RecordingSource,
+} from "./structured-data";
+import { validateStructuredData } from "./validation";
+
+// =============================================================================
+// FIXTURES
+// =============================================================================
+
+const site: JsonLdSite = { name: "Inzies", url: "https://wizreet.github.io/inzies/" };
+
+const member: BandMember = {
+	id: "reetwiz",
+	name: "Reetwiz",
+	role: "Drums",
+	bio: "Keeps time.",
+	asciiArt: "",
+	photo: "/inzies/assets/members/reetwiz.png",
+	social: { instagram: "https://instagram.com/reetwiz" },
+};
+
+/** Only the required fields */
+const bareMember: BandMember = { id: "guest", name: "Guest", role: "Keys", bio: "", asciiArt: "" };
+
+const release: Release = {
+	id: "single-asha",
+	title: "Asha",
+	type: "single",
+	description: "A track about reminiscence and hope.",
+	coverArt: "/inzies/assets/covers/asha.png",
+	releaseDate: "2024-06-01",
+	spotifyUrl: "https://open.spotify.com/track/asha",
+};
+
+/** Only the required fields */
+const bareRelease: Release = {
+	id: "album-untitled",
+	title: "Untitled",
+	type: "album",
+	description: "",
+	coverArt: "/inzies/assets/covers/untitled.png",
+	releaseDate: "2025-01-15",
+};
+
+const song: RecordingSource = {
+	id: "song-asha",
+	title: "Asha",
+	duration: "4:12",
+	description: "A track about reminiscence and hope.",
+	pattern: 's("bd sd")',
+	youtubeUrl: "https://youtube.com/watch?v=asha",
+};
+
+/** A catalog track with no pattern, description, cover art or links */
+const bareTrack: RecordingSource = { id: "track-intro", title: "Intro", duration: "" };
+
+/**
+ * Validates a node the way a page publishes it
+ */
+function validate(node: JsonLdNode | readonly JsonLdNode[]) {
+	return validateStructuredData(JSON.parse(serializeJsonLd(node)));
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe("toIsoDuration", () => {
+	it("converts m:ss durations", () => {
+		expect(toIsoDuration("3:48")).toBe("PT3M48S");
+		expect(toIsoDuration("62:05")).toBe("PT1H2M5S");
+		expect(toIsoDuration("0:00")).toBe("PT0S");
+	});
+
+	it("rejects values that aren't durations", () => {
+		expect(toIsoDuration("")).toBeUndefined();
+		expect(toIsoDuration("soon")).toBeUndefined();
+	});
+});
+
+describe("buildPerson", () => {
+	it("builds a valid Person", () => {
+		const person = buildPerson(member, site);
+		expect(person).toMatchObject({
+			"@type": "Person",
+			url: "https://wizreet.github.io/inzies/about/reetwiz/",
+			image: "https://wizreet.github.io/inzies/assets/members/reetwiz.png",
+			sameAs: ["https://instagram.com/reetwiz"],
+		});
+		expect(validate(person)).toEqual([]);
+	});
+
+	it("leaves out missing optional fields", () => {
+		const person = buildPerson(bareMember, site);
+		expect(person).not.toHaveProperty("description");
+		expect(person).not.toHaveProperty("image");
+		expect(person).not.toHaveProperty("sameAs");
+		expect(validate(person)).toEqual([]);
+	});
+});
+
+describe("buildMusicGroup", () => {
+	it("builds a valid MusicGroup with members and albums", () => {
+		const band = buildMusicGroup(site, {
+			description: "Engineers making music",
+			logo: "/inzies/assets/logos/logo.png",
+			sameAs: ["https://open.spotify.com/artist/inzies"],
+			members: [member, bareMember],
+			releases: [release],
+		});
+		expect(band.member?.map((person) => person.name)).toEqual(["Reetwiz", "Guest"]);
+		expect(band.member?.[0]).not.toHaveProperty("memberOf");
+		expect(validate(band)).toEqual([]);
+	});
+
+	it("is valid with no description, logo, profiles, members or releases", () => {
+		const band = buildMusicGroup(site, { sameAs: [], members: [], releases: [] });
+		expect(band).not.toHaveProperty("description");
+		expect(band).not.toHaveProperty("logo");
+		expect(band).not.toHaveProperty("sameAs");
+		expect(validate(band)).toEqual([]);
+	});
+});
+
+describe("buildMusicRecording", () => {
+	it("builds a valid MusicRecording linking to Play Along", () => {
+		const recording = buildMusicRecording(song, release, site);
+		expect(recording).toMatchObject({
+			url: "https://wizreet.github.io/inzies/play/?song=song-asha",
+			duration: "PT4M12S",
+			datePublished: "2024-06-01",
+			image: "https://wizreet.github.io/inzies/assets/covers/asha.png",
+			sameAs: ["https://youtube.com/watch?v=asha"],
+		});
+		expect(validate(recording)).toEqual([]);
+	});
+
+	it("links a track without a pattern to its release and leaves out missing fields", () => {
+		const recording = buildMusicRecording(bareTrack, bareRelease, site);
+		expect(recording.url).toBe("https://wizreet.github.io/inzies/music/album-untitled/");
+		expect(recording).not.toHaveProperty("duration");
+		expect(recording).not.toHaveProperty("description");
+		expect(recording).not.toHaveProperty("sameAs");
+		expect(validate(recording)).toEqual([]);
+	});
+});
+
+describe("buildMusicAlbum", () => {
+	it("builds a valid MusicAlbum with its tracks", () => {
+		const album = buildMusicAlbum(release, [song, bareTrack], site);
+		expect(album).toMatchObject({
+			albumReleaseType: "https://schema.org/SingleRelease",
+			numTracks: 2,
+			sameAs: ["https://open.spotify.com/track/asha"],
+		});
+		expect(album.track[0]).not.toHaveProperty("inAlbum");
+		expect(validate(album)).toEqual([]);
+	});
+
+	it("is valid with no tracks, description or streaming links", () => {
+		const album = buildMusicAlbum(bareRelease, [], site);
+		expect(album).toMatchObject({ numTracks: 0, track: [] });
+		expect(album).not.toHaveProperty("description");
+		expect(album).not.toHaveProperty("sameAs");
+		expect(validate(album)).toEqual([]);
+	});
+});
+
+describe("serializeJsonLd", () => {
+	it("puts several nodes in a valid @graph", () => {
+		const graph = [buildMusicAlbum(release, [song], site), buildPerson(member, site)];
+		expect(JSON.parse(serializeJsonLd(graph))["@graph"]).toHaveLength(2);
+		expect(validate(graph)).toEqual([]);
+	});
+
+	it("escapes < so no value can close the script tag", () => {
+		const person = buildPerson({ ...member, bio: "</script><script>alert(1)" }, site);
+		expect(serializeJsonLd(person)).not.toContain("<");
+		expect(validate(person)).toEqual([]);
+	});
+});
+
+describe("validateStructuredData", () => {
+	it("reports values outside the vocabulary", () => {
+		const recording = {
+			...buildMusicRecording(song, release, site),
+			duration: "4:12",
+			datePublished: "June 2024",
+			url: "/inzies/play/",
+			tempo: 85,
+		};
+		const fields = validateStructuredData({ "@context": SCHEMA_ORG_CONTEXT, ...recording }).map(
+			(error) => error.field
+		);
+		expect(fields).toEqual(
+			expect.arrayContaining([
+				"structuredData.duration",
+				"structuredData.datePublished",
+				"structuredData.url",
+				"structuredData.tempo",
+			])
+		);
+	});
+
+	it("reports a node of the wrong type", () => {
+		const album = buildMusicAlbum(release, [song], site);
+		const person = buildPerson(member, site);
+		expect(
+			validateStructuredData({ "@context": SCHEMA_ORG_CONTEXT, ...album, track: [person] })
+		).not.toEqual([]);
+	});
+});
@@ -0,0 +1,276 @@
+/**
+ * Structured Data Utilities
+ *
+ * Builds schema.org JSON-LD from the site's data types: `MusicGroup` for the
+ * band, `Person` for members, `MusicAlbum` for releases and `MusicRecording`
+ * for songs and tracks. Builders take site paths and resolve them against
+ * the site's URL, since JSON-LD needs absolute URLs.
+ *
+ * `validateStructuredData` (utils/validation) checks the output against the
+ * subset of the schema.org vocabulary used here.
+ *
+ * @module utils/structured-data
+ */
+
+import type {
+	BandMember,
+	CatalogTrack,
+	JsonLdNode,
+	JsonLdReference,
+	MusicAlbumJsonLd,
+	MusicAlbumReleaseType,
+	MusicGroupJsonLd,
+	MusicRecordingJsonLd,
+	PersonJsonLd,
+	Release,
+	ReleaseType,
+	StreamingLinks,
+} from "../types";
+import { ROUTES } from "../constants";
+import { parseTimestamp } from "./lyrics";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * The band's name and the site's absolute URL, e.g. "https://wizreet.github.io/inzies/"
+ */
+export interface JsonLdSite {
+	readonly name: string;
+	readonly url: string;
+}
+
+/**
+ * What a recording is built from: a Play Along song or any catalog track
+ */
+export type RecordingSource = Pick<
+	CatalogTrack,
+	"id" | "title" | "duration" | "description" | "coverArt" | "pattern" | "spotifyUrl" | "youtubeUrl"
+>;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/** schema.org `@context` */
+export const SCHEMA_ORG_CONTEXT = "https://schema.org";
+
+const ALBUM_RELEASE_TYPES: Readonly<Record<ReleaseType, MusicAlbumReleaseType>> = {
+	single: "https://schema.org/SingleRelease",
+	EP: "https://schema.org/EPRelease",
+	album: "https://schema.org/AlbumRelease",
+};
+
+/**
+ * Converts a `m:ss` duration to ISO 8601
+ *
+ * @param duration - Track length, e.g. "3:48"
+ * @returns The ISO 8601 duration, or undefined if the value isn't a duration
+ *
+ * @example
+ * ```ts
+ * toIsoDuration("3:48"); // "PT3M48S"
+ * toIsoDuration("62:05"); // "PT1H2M5S"
+ * ```
+ */
+export function toIsoDuration(duration: string): string | undefined {
+	const seconds = parseTimestamp(duration);
+	if (seconds === undefined) return undefined;
+
+	const hours = Math.floor(seconds / 3600);
+	const minutes = Math.floor((seconds % 3600) / 60);
+	const rest = Math.round(seconds % 60);
+
+	let iso = "PT";
+	if (hours) iso += `${hours}H`;
+	if (minutes) iso += `${minutes}M`;
+	if (rest || iso === "PT") iso += `${rest}S`;
+	return iso;
+}
+
+/**
+ * Resolves a site path, e.g. `ROUTES.release("single-asha")`, to an absolute URL
+ */
+function absoluteUrl(path: string, site: JsonLdSite): string {
+	return new URL(path, site.url).href;
+}
+
+/**
+ * Lists the streaming URLs a release or track has
+ */
+function getStreamingUrls(links: StreamingLinks): string[] | undefined {
+	const urls = [
+		links.spotifyUrl,
+		links.youtubeUrl,
+		links.appleMusicUrl,
+		links.soundcloudUrl,
+		links.bandcampUrl,
+	].filter((url): url is string => Boolean(url));
+	return urls.length > 0 ? urls : undefined;
+}
+
+/**
+ * Links to the band
+ */
+function bandReference(site: JsonLdSite): JsonLdReference<"MusicGroup"> {
+	return { "@type": "MusicGroup", name: site.name, url: site.url };
+}
+
+// =============================================================================
+// BUILDERS
+// =============================================================================
+
+/**
+ * Builds a band member's `Person`
+ *
+ * @param member - The band member
+ * @param site - The band and site URL
+ * @returns JSON-LD for the member's profile page
+ */
+export function buildPerson(member: BandMember, site: JsonLdSite): PersonJsonLd {
+	const sameAs = Object.values(member.social ?? {}).filter((url): url is string => Boolean(url));
+	return {
+		"@type": "Person",
+		name: member.name,
+		url: absoluteUrl(ROUTES.member(member.id), site),
+		jobTitle: member.role,
+		...(member.bio && { description: member.bio }),
+		...(member.photo && { image: absoluteUrl(member.photo, site) }),
+		...(sameAs.length > 0 && { sameAs }),
+		memberOf: bandReference(site),
+	};
+}
+
+/**
+ * Builds the band's `MusicGroup`
+ *
+ * @param site - The band and site URL
+ * @param band - Description, logo path, profiles elsewhere, members and releases
+ * @returns JSON-LD for the home page
+ *
+ * @example
+ * ```ts
+ * buildMusicGroup(site, { description, logo, sameAs: [spotifyUrl], members, releases });
+ * ```
+ */
+export function buildMusicGroup(
+	site: JsonLdSite,
+	band: {
+		readonly description?: string;
+		readonly logo?: string;
+		readonly sameAs: readonly string[];
+		readonly members: readonly BandMember[];
+		readonly releases: readonly Pick<Release, "id" | "title">[];
+	}
+): MusicGroupJsonLd {
+	return {
+		...bandReference(site),
+		...(band.description && { description: band.description }),
+		...(band.logo && { logo: absoluteUrl(band.logo, site) }),
+		...(band.sameAs.length > 0 && { sameAs: band.sameAs }),
+		member: band.members.map((member) => {
+			// The band is the enclosing node already
+			const { memberOf: _memberOf, ...person } = buildPerson(member, site);
+			return person;
+		}),
+		album: band.releases.map((release) => ({
+			"@type": "MusicAlbum",
+			name: release.title,
+			url: absoluteUrl(ROUTES.release(release.id), site),
+		})),
+	};
+}
+
+/**
+ * Builds a `MusicRecording` for a track on a release
+ *
+ * Tracks with a Strudel pattern link to Play Along, the rest to the release.
+ *
+ * @param track - A Play Along song or catalog track
+ * @param release - The release it's on
+ * @param site - The band and site URL
+ * @returns JSON-LD for the recording
+ */
+export function buildMusicRecording(
+	track: RecordingSource,
+	release: Pick<Release, "id" | "title" | "releaseDate" | "coverArt">,
+	site: JsonLdSite
+): MusicRecordingJsonLd {
+	const url = track.pattern === undefined ? ROUTES.release(release.id) : ROUTES.playSong(track.id);
+	const duration = toIsoDuration(track.duration);
+	const sameAs = getStreamingUrls(track);
+	return {
+		"@type": "MusicRecording",
+		name: track.title,
+		url: absoluteUrl(url, site),
+		...(track.description && { description: track.description }),
+		image: absoluteUrl(track.coverArt ?? release.coverArt, site),
+		...(duration && { duration }),
+		datePublished: release.releaseDate,
+		byArtist: bandReference(site),
+		inAlbum: {
+			"@type": "MusicAlbum",
+			name: release.title,
+			url: absoluteUrl(ROUTES.release(release.id), site),
+		},
+		...(sameAs && { sameAs }),
+	};
+}
+
+/**
+ * Builds a release's `MusicAlbum`, with a `MusicRecording` per track
+ *
+ * @param release - The release
+ * @param tracklist - Its tracks, in order
+ * @param site - The band and site URL
+ * @returns JSON-LD for the release page
+ */
+export function buildMusicAlbum(
+	release: Release,
+	tracklist: readonly RecordingSource[],
+	site: JsonLdSite
+): MusicAlbumJsonLd {
+	const sameAs = getStreamingUrls(release);
+	return {
+		"@type": "MusicAlbum",
+		name: release.title,
+		url: absoluteUrl(ROUTES.release(release.id), site),
+		...(release.description && { description: release.description }),
+		image: absoluteUrl(release.coverArt, site),
+		datePublished: release.releaseDate,
+		albumReleaseType: ALBUM_RELEASE_TYPES[release.type],
+		byArtist: bandReference(site),
+		numTracks: tracklist.length,
+		track: tracklist.map((track) => {
+			// The album is the enclosing node already
+			const { inAlbum: _inAlbum, ...recording } = buildMusicRecording(track, release, site);
+			return recording;
+		}),
+		...(sameAs && { sameAs }),
+	};
+}
+
+// =============================================================================
+// SERIALIZATION
+// =============================================================================
+
+/**
+ * Serializes JSON-LD for a `<script type="application/ld+json">` tag
+ *
+ * Several nodes go in an `@graph`. `<` is escaped so no value can close the script.
+ *
+ * @param nodes - One node or several
+ * @returns The script's contents
+ *
+ * @example
+ * ```ts
+ * serializeJsonLd(bandJsonLd); // '{"@context":"https://schema.org","@type":"MusicGroup",...}'
+ * ```
+ */
+export function serializeJsonLd(nodes: JsonLdNode | readonly JsonLdNode[]): string {
+	const document = Array.isArray(nodes)
+		? { "@context": SCHEMA_ORG_CONTEXT, "@graph": nodes }
+		: { "@context": SCHEMA_ORG_CONTEXT, ...nodes };
+	return JSON.stringify(document).replace(/</g, "\\u003c");
+}
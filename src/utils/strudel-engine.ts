@@ -0,0 +1,764 @@
+/**
+ * Local Strudel Playback Engine
+ *
+ * Plays song patterns in the page with the Web Audio API, so Play Along
+ * works offline and where strudel.cc is blocked. It understands the subset
+ * of Strudel our patterns use: `$:` voices, `s()`, `note()`, `stack()`,
+ * `setcpm()`/`setcps()` and a handful of effect methods. Instruments are
+ * synthesized, and so are drums unless the samples of their `.bank()` have
+ * been loaded (songs saved for offline use load them while the visitor is
+ * offline; see utils/offline).
+ *
+ * Anything else makes `compileStrudelPattern` report the pattern as
+ * unsupported, and the players fall back to the strudel.cc iframe.
+ *
+ * @module utils/strudel-engine
+ */
+
+import {
+	getMiniAtoms,
+	noteToMidi,
+	parseMiniNotation,
+	queryMiniNotation,
+	type MiniNode,
+} from "./mini-notation";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Numeric effect controls set with methods such as `.gain(.8)`
+ */
+export interface VoiceControls {
+	readonly gain?: number;
+	readonly velocity?: number;
+	readonly lpf?: number;
+	readonly attack?: number;
+	readonly decay?: number;
+	readonly sustain?: number;
+	readonly release?: number;
+	readonly room?: number;
+	readonly delay?: number;
+}
+
+/**
+ * One playable voice: a mini-notation pattern of sounds or notes
+ */
+export interface CompiledVoice {
+	/** `s()` patterns name sounds; `note()` patterns name pitches */
+	readonly kind: "sound" | "note";
+	readonly source: MiniNode;
+	/** Instrument for `note()` voices, from `.s()` */
+	readonly instrument: string;
+	/** Drum machine for `s()` voices, from `.bank()` */
+	readonly bank?: string;
+	readonly controls: VoiceControls;
+}
+
+/**
+ * A compiled pattern, ready for the engine
+ */
+export interface StrudelProgram {
+	/** Tempo in cycles per second */
+	readonly cps: number;
+	readonly voices: readonly CompiledVoice[];
+}
+
+/**
+ * Result of compiling pattern code for local playback
+ */
+export type CompileResult =
+	| { readonly supported: true; readonly program: StrudelProgram }
+	| { readonly supported: false; readonly reason: string };
+
+// =============================================================================
+// SOUND CATALOG
+// =============================================================================
+
+/** Synthesized drum sounds, by Strudel sample name */
+const DRUM_SOUNDS = ["bd", "sd", "hh", "oh", "cp", "rim"] as const;
+
+/** Synthesized instruments, by Strudel sound name */
+const INSTRUMENTS = ["sine", "sawtooth", "saw", "square", "triangle", "tri", "piano"] as const;
+
+/** Strudel's default tempo: one cycle every two seconds */
+const DEFAULT_CPS = 0.5;
+
+/** Methods that set a numeric control, mapped to the control they set */
+const CONTROL_METHODS: Record<string, keyof VoiceControls> = {
+	gain: "gain",
+	velocity: "velocity",
+	lpf: "lpf",
+	cutoff: "lpf",
+	attack: "attack",
+	att: "attack",
+	decay: "decay",
+	dec: "decay",
+	sustain: "sustain",
+	sus: "sustain",
+	release: "release",
+	rel: "release",
+	room: "room",
+	delay: "delay",
+};
+
+/**
+ * Converts a note name ("a3", "fs2", "bb0", "c#4") or MIDI number to a frequency
+ *
+ * @returns The frequency in Hz, or undefined if the note can't be read
+ */
+export function noteToFrequency(note: string): number | undefined {
+	const midi = noteToMidi(note);
+	return midi === undefined ? undefined : 440 * 2 ** ((midi - 69) / 12);
+}
+
+/**
+ * Names a drum sample the way Strudel's sample maps do
+ *
+ * @param bank - The drum machine, from `.bank()`
+ * @param value - The sound with an optional sample number, e.g. "sd" or "sd:3"
+ * @returns The sample key, e.g. "RolandTR909_sd:3"
+ */
+export function getBankSampleKey(bank: string, value: string): string {
+	const [name, index = "0"] = value.split(":");
+	return `${bank}_${name}:${Number(index) || 0}`;
+}
+
+/**
+ * Lists the drum bank samples a program plays
+ *
+ * @param program - A compiled program
+ * @returns Sample keys, without duplicates
+ */
+export function getProgramSampleKeys(program: StrudelProgram): string[] {
+	const keys = program.voices.flatMap((voice) =>
+		voice.kind === "sound" && voice.bank
+			? getMiniAtoms(voice.source)
+					.filter((atom) => (DRUM_SOUNDS as readonly string[]).includes(atom.split(":")[0]))
+					.map((atom) => getBankSampleKey(voice.bank as string, atom))
+			: []
+	);
+	return [...new Set(keys)];
+}
+
+// =============================================================================
+// COMPILER
+// =============================================================================
+
+type Token =
+	| { readonly kind: "identifier"; readonly value: string }
+	| { readonly kind: "number"; readonly value: number }
+	| { readonly kind: "string"; readonly value: string }
+	| { readonly kind: "punctuation"; readonly value: string };
+
+/** Something a pattern expression can evaluate to */
+type Value =
+	| { readonly type: "number"; readonly value: number }
+	| { readonly type: "string"; readonly value: string }
+	| { readonly type: "voices"; readonly voices: readonly CompiledVoice[] }
+	| { readonly type: "tempo"; readonly cps: number };
+
+function tokenize(code: string): Token[] {
+	const tokens: Token[] = [];
+	const tokenRegex =
+		/\s+|\/\/[^\n]*|(\d*\.?\d+)|("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|`(?:[^`\\]|\\.)*`)|([A-Za-z_$][\w$]*)|([().,:;*/+-])|(.)/gy;
+
+	for (const match of code.matchAll(tokenRegex)) {
+		const [, number, string, identifier, punctuation, unknown] = match;
+		if (number !== undefined) tokens.push({ kind: "number", value: Number(number) });
+		else if (string !== undefined) tokens.push({ kind: "string", value: string.slice(1, -1) });
+		else if (identifier !== undefined) tokens.push({ kind: "identifier", value: identifier });
+		else if (punctuation !== undefined) tokens.push({ kind: "punctuation", value: punctuation });
+		else if (unknown !== undefined) throw new Error(`"${unknown}" isn't supported`);
+	}
+
+	return tokens;
+}
+
+/**
+ * Applies a method such as `.gain(.8)` or `.slow(2)` to a set of voices
+ */
+function applyMethod(
+	voices: readonly CompiledVoice[],
+	name: string,
+	args: readonly Value[]
+): readonly CompiledVoice[] {
+	const [arg] = args;
+
+	if (name === "slow" || name === "fast") {
+		if (arg?.type !== "number" || arg.value <= 0) throw new Error(`.${name}() needs a number`);
+		const factor = name === "fast" ? arg.value : 1 / arg.value;
+		return voices.map((voice) => ({
+			...voice,
+			source: { type: "speed", node: voice.source, factor },
+		}));
+	}
+
+	if (name === "s" || name === "sound") {
+		if (arg?.type !== "string" || !(INSTRUMENTS as readonly string[]).includes(arg.value)) {
+			throw new Error(
+				`.${name}(${arg?.type === "string" ? `"${arg.value}"` : ""}) isn't supported`
+			);
+		}
+		return voices.map((voice) => ({ ...voice, instrument: arg.value }));
+	}
+
+	if (name === "bank") {
+		if (arg?.type !== "string") throw new Error(".bank() needs a string");
+		return voices.map((voice) => ({ ...voice, bank: arg.value }));
+	}
+
+	const control = CONTROL_METHODS[name];
+	if (control) {
+		if (arg?.type !== "number") throw new Error(`.${name}() needs a number`);
+		return voices.map((voice) => ({
+			...voice,
+			controls: { ...voice.controls, [control]: arg.value },
+		}));
+	}
+
+	throw new Error(`.${name}() isn't supported`);
+}
+
+/**
+ * Creates a voice from `s("...")` or `note("...")`
+ */
+function createVoice(kind: CompiledVoice["kind"], arg: Value | undefined): CompiledVoice {
+	const fn = kind === "sound" ? "s" : "note";
+	if (arg?.type !== "string") throw new Error(`${fn}() needs a string`);
+
+	const parsed = parseMiniNotation(arg.value);
+	if (!parsed.success) throw new Error(`${fn}("${arg.value}"): ${parsed.error}`);
+
+	for (const atom of getMiniAtoms(parsed.node)) {
+		const name = atom.split(":")[0];
+		const known =
+			kind === "sound"
+				? (DRUM_SOUNDS as readonly string[]).includes(name) ||
+					(INSTRUMENTS as readonly string[]).includes(name)
+				: noteToFrequency(atom) !== undefined;
+		if (!known) throw new Error(`${fn}("${atom}") isn't supported`);
+	}
+
+	return { kind, source: parsed.node, instrument: "triangle", controls: {} };
+}
+
+/**
+ * Compiles Strudel pattern code for the local engine
+ *
+ * With `$:` labels every labelled expression plays; otherwise the last
+ * expression does, as in the Strudel REPL.
+ *
+ * @param code - The Strudel pattern code
+ * @returns The program, or the reason it has to play on strudel.cc
+ *
+ * @example
+ * ```ts
+ * const result = compileStrudelPattern(song.pattern);
+ * if (result.supported) engine.play(result.program);
+ * ```
+ */
+export function compileStrudelPattern(code: string): CompileResult {
+	let tokens: Token[];
+	try {
+		tokens = tokenize(code);
+	} catch (error) {
+		return { supported: false, reason: (error as Error).message };
+	}
+
+	let position = 0;
+	const peek = (offset = 0) => tokens[position + offset];
+	const isPunctuation = (token: Token | undefined, value: string) =>
+		token?.kind === "punctuation" && token.value === value;
+	const expect = (value: string) => {
+		if (!isPunctuation(peek(), value)) throw new Error(`expected "${value}"`);
+		position++;
+	};
+
+	const parseArgs = (): Value[] => {
+		expect("(");
+		const args: Value[] = [];
+		while (!isPunctuation(peek(), ")")) {
+			args.push(parseArithmetic());
+			if (isPunctuation(peek(), ",")) position++;
+			else break;
+		}
+		expect(")");
+		return args;
+	};
+
+	// Numbers may be written as simple arithmetic, e.g. setcpm(95/4)
+	const parseArithmetic = (): Value => {
+		let left = parseChain();
+		while (["*", "/", "+", "-"].some((op) => isPunctuation(peek(), op))) {
+			const operator = (peek() as { value: string }).value;
+			position++;
+			const right = parseChain();
+			if (left.type !== "number" || right.type !== "number") {
+				throw new Error(`"${operator}" only works on numbers here`);
+			}
+			const value =
+				operator === "*"
+					? left.value * right.value
+					: operator === "/"
+						? left.value / right.value
+						: operator === "+"
+							? left.value + right.value
+							: left.value - right.value;
+			left = { type: "number", value };
+		}
+		return left;
+	};
+
+	const parsePrimary = (): Value => {
+		const token = peek();
+		position++;
+
+		if (token?.kind === "number") return { type: "number", value: token.value };
+		if (token?.kind === "string") return { type: "string", value: token.value };
+		if (isPunctuation(token, "-") && peek()?.kind === "number") {
+			const number = peek() as { value: number };
+			position++;
+			return { type: "number", value: -number.value };
+		}
+		if (token?.kind !== "identifier") throw new Error("unexpected syntax");
+
+		const args = parseArgs();
+		switch (token.value) {
+			case "s":
+			case "sound":
+				return { type: "voices", voices: [createVoice("sound", args[0])] };
+			case "note":
+				return { type: "voices", voices: [createVoice("note", args[0])] };
+			case "stack":
+				return {
+					type: "voices",
+					voices: args.flatMap((arg) => {
+						if (arg.type !== "voices") throw new Error("stack() only takes patterns");
+						return arg.voices;
+					}),
+				};
+			case "setcps":
+			case "setcpm": {
+				const [arg] = args;
+				if (arg?.type !== "number" || arg.value <= 0) {
+					throw new Error(`${token.value}() needs a number`);
+				}
+				return { type: "tempo", cps: token.value === "setcpm" ? arg.value / 60 : arg.value };
+			}
+			default:
+				throw new Error(`${token.value}() isn't supported`);
+		}
+	};
+
+	const parseChain = (): Value => {
+		let value = parsePrimary();
+		while (isPunctuation(peek(), ".") && peek(1)?.kind === "identifier") {
+			const name = (peek(1) as { value: string }).value;
+			position += 2;
+			const args = parseArgs();
+			if (value.type !== "voices") {
+				throw new Error(`.${name}() on a ${value.type} isn't supported`);
+			}
+			value = { type: "voices", voices: applyMethod(value.voices, name, args) };
+		}
+		return value;
+	};
+
+	try {
+		let cps = DEFAULT_CPS;
+		const labelled: CompiledVoice[] = [];
+		let last: readonly CompiledVoice[] = [];
+
+		while (position < tokens.length) {
+			if (isPunctuation(peek(), ";")) {
+				position++;
+				continue;
+			}
+
+			const isLabelled = peek()?.kind === "identifier" && isPunctuation(peek(1), ":");
+			if (isLabelled) {
+				if ((peek() as { value: string }).value !== "$")
+					throw new Error("only $: labels are supported");
+				position += 2;
+			}
+
+			const value = parseArithmetic();
+			if (value.type === "tempo") {
+				cps = value.cps;
+			} else if (value.type === "voices") {
+				if (isLabelled) labelled.push(...value.voices);
+				last = value.voices;
+			}
+		}
+
+		const voices = labelled.length > 0 ? labelled : last;
+		return { supported: true, program: { cps, voices } };
+	} catch (error) {
+		return { supported: false, reason: (error as Error).message };
+	}
+}
+
+// =============================================================================
+// ENGINE
+// =============================================================================
+
+/** How often the scheduler wakes up, in milliseconds */
+const SCHEDULER_INTERVAL_MS = 50;
+
+/** How far ahead of the audio clock events are scheduled, in seconds */
+const LOOKAHEAD_SECONDS = 0.2;
+
+/** Overall level, leaving headroom for six or more voices at once */
+const MASTER_GAIN = 0.35;
+
+/**
+ * Plays compiled Strudel programs with the Web Audio API
+ *
+ * @example
+ * ```ts
+ * const engine = new StrudelEngine();
+ * const result = compileStrudelPattern(code);
+ * if (result.supported) engine.play(result.program);
+ * // later
+ * engine.stop();
+ * ```
+ */
+export class StrudelEngine {
+	private context: AudioContext | undefined;
+	private master: GainNode | undefined;
+	private analyser: AnalyserNode | undefined;
+	private reverb: ConvolverNode | undefined;
+	private echo: DelayNode | undefined;
+	private noise: AudioBuffer | undefined;
+	// Drum samples by key; data loaded before the audio context exists waits in `pendingSamples`
+	private samples = new Map<string, AudioBuffer>();
+	private pendingSamples = new Map<string, ArrayBuffer>();
+	private timer: ReturnType<typeof setInterval> | undefined;
+
+	private program: StrudelProgram | undefined;
+	// The cycle playing at `originTime`; moved whenever the tempo changes
+	private originCycle = 0;
+	private originTime = 0;
+	private scheduledUntil = 0;
+
+	/** True while a program is playing */
+	get playing(): boolean {
+		return this.timer !== undefined;
+	}
+
+	/**
+	 * Starts playing a program from its first cycle
+	 *
+	 * Must be called from a user gesture (e.g. a click) so the browser allows audio.
+	 */
+	play(program: StrudelProgram): void {
+		this.stop();
+		const context = this.ensureContext();
+		void context.resume();
+
+		this.program = program;
+		this.originCycle = 0;
+		this.originTime = context.currentTime + 0.05;
+		this.scheduledUntil = 0;
+		this.timer = setInterval(() => this.schedule(), SCHEDULER_INTERVAL_MS);
+		this.schedule();
+	}
+
+	/**
+	 * Swaps in a new program without restarting, keeping the current position
+	 */
+	update(program: StrudelProgram): void {
+		if (!this.playing || !this.context || !this.program) return;
+
+		if (program.cps !== this.program.cps) {
+			const now = this.context.currentTime;
+			this.originCycle = this.cycleAt(now);
+			this.originTime = now;
+			this.scheduledUntil = Math.max(this.scheduledUntil, this.originCycle);
+		}
+		this.program = program;
+	}
+
+	/**
+	 * Gets an analyser on the engine's output, e.g. for a visualizer
+	 *
+	 * Like `play`, the first call must come from a user gesture.
+	 */
+	getAnalyser(): AnalyserNode {
+		const context = this.ensureContext();
+		if (!this.analyser) {
+			this.analyser = context.createAnalyser();
+			this.analyser.fftSize = 256;
+			this.master?.connect(this.analyser);
+		}
+		return this.analyser;
+	}
+
+	/**
+	 * Adds a drum sample, played instead of the synthesized drum for its bank and sound
+	 *
+	 * @param key - The sample key, from `getBankSampleKey`
+	 * @param data - The encoded audio file
+	 */
+	loadSample(key: string, data: ArrayBuffer): void {
+		if (this.samples.has(key)) return;
+		if (this.context) void this.decodeSample(this.context, key, data);
+		else this.pendingSamples.set(key, data);
+	}
+
+	/**
+	 * Drops every loaded drum sample, so drums are synthesized again
+	 */
+	clearSamples(): void {
+		this.samples.clear();
+		this.pendingSamples.clear();
+	}
+
+	/**
+	 * Stops playback; sounds already scheduled ring out
+	 */
+	stop(): void {
+		if (this.timer !== undefined) clearInterval(this.timer);
+		this.timer = undefined;
+		this.program = undefined;
+	}
+
+	private cycleAt(time: number): number {
+		return this.originCycle + (time - this.originTime) * (this.program?.cps ?? DEFAULT_CPS);
+	}
+
+	private timeAt(cycle: number): number {
+		return this.originTime + (cycle - this.originCycle) / (this.program?.cps ?? DEFAULT_CPS);
+	}
+
+	private schedule(): void {
+		const { context, program } = this;
+		if (!context || !program) return;
+
+		const until = this.cycleAt(context.currentTime + LOOKAHEAD_SECONDS);
+		if (until <= this.scheduledUntil) return;
+
+		for (const voice of program.voices) {
+			for (const event of queryMiniNotation(voice.source, this.scheduledUntil, until)) {
+				const time = this.timeAt(event.begin);
+				const duration = (event.end - event.begin) / program.cps;
+				if (time >= context.currentTime) this.trigger(voice, event.value, time, duration);
+			}
+		}
+		this.scheduledUntil = until;
+	}
+
+	private trigger(voice: CompiledVoice, value: string, time: number, duration: number): void {
+		const name = value.split(":")[0];
+		if (voice.kind === "sound" && (DRUM_SOUNDS as readonly string[]).includes(name)) {
+			const sample = voice.bank && this.samples.get(getBankSampleKey(voice.bank, value));
+			if (sample) this.playSample(sample, time, voice.controls);
+			else this.playDrum(name, time, voice.controls);
+			return;
+		}
+
+		// s("sine") plays the instrument at its default pitch
+		const instrument = voice.kind === "sound" ? name : voice.instrument;
+		const frequency = voice.kind === "sound" ? noteToFrequency("c3") : noteToFrequency(value);
+		if (frequency !== undefined) {
+			this.playInstrument(instrument, frequency, time, duration, voice.controls);
+		}
+	}
+
+	private ensureContext(): AudioContext {
+		if (this.context) return this.context;
+
+		const context = new AudioContext();
+		this.master = context.createGain();
+		this.master.gain.value = MASTER_GAIN;
+		this.master.connect(context.destination);
+
+		// Shared effect sends, as in Strudel where room and delay are global busses
+		this.reverb = context.createConvolver();
+		this.reverb.buffer = this.createImpulse(context, 2.5);
+		this.reverb.connect(this.master);
+
+		this.echo = context.createDelay(1);
+		this.echo.delayTime.value = 0.25;
+		const feedback = context.createGain();
+		feedback.gain.value = 0.45;
+		this.echo.connect(feedback).connect(this.echo);
+		this.echo.connect(this.master);
+
+		this.noise = context.createBuffer(1, context.sampleRate, context.sampleRate);
+		const samples = this.noise.getChannelData(0);
+		for (let i = 0; i < samples.length; i++) samples[i] = Math.random() * 2 - 1;
+
+		this.context = context;
+		for (const [key, data] of this.pendingSamples) void this.decodeSample(context, key, data);
+		this.pendingSamples.clear();
+		return context;
+	}
+
+	private async decodeSample(context: AudioContext, key: string, data: ArrayBuffer): Promise<void> {
+		try {
+			this.samples.set(key, await context.decodeAudioData(data));
+		} catch {
+			// Not audio the browser can decode: the synthesized drum keeps playing
+		}
+	}
+
+	private createImpulse(context: AudioContext, seconds: number): AudioBuffer {
+		const length = Math.floor(context.sampleRate * seconds);
+		const impulse = context.createBuffer(2, length, context.sampleRate);
+		for (let channel = 0; channel < 2; channel++) {
+			const samples = impulse.getChannelData(channel);
+			for (let i = 0; i < length; i++) {
+				samples[i] = (Math.random() * 2 - 1) * (1 - i / length) ** 3;
+			}
+		}
+		return impulse;
+	}
+
+	/**
+	 * Routes a sound through the voice's filter, level and effect sends
+	 */
+	private output(node: AudioNode, time: number, controls: VoiceControls): AudioNode {
+		const context = this.context as AudioContext;
+		let tail: AudioNode = node;
+
+		if (controls.lpf !== undefined) {
+			const filter = context.createBiquadFilter();
+			filter.type = "lowpass";
+			filter.frequency.setValueAtTime(controls.lpf, time);
+			tail = tail.connect(filter);
+		}
+
+		const level = context.createGain();
+		level.gain.value = (controls.gain ?? 1) * (controls.velocity ?? 1);
+		tail = tail.connect(level);
+		tail.connect(this.master as GainNode);
+
+		for (const [amount, bus] of [
+			[controls.room, this.reverb],
+			[controls.delay, this.echo],
+		] as const) {
+			if (!amount || !bus) continue;
+			const send = context.createGain();
+			send.gain.value = amount;
+			tail.connect(send).connect(bus);
+		}
+
+		return node;
+	}
+
+	private playSample(buffer: AudioBuffer, time: number, controls: VoiceControls): void {
+		const context = this.context as AudioContext;
+		const envelope = context.createGain();
+		this.output(envelope, time, controls);
+
+		const source = context.createBufferSource();
+		source.buffer = buffer;
+		source.connect(envelope);
+		envelope.gain.setValueAtTime(1, time);
+		// .dec() shortens the sample, as it does on strudel.cc
+		if (controls.decay !== undefined) {
+			envelope.gain.exponentialRampToValueAtTime(0.001, time + controls.decay);
+		}
+		source.start(time);
+		source.stop(time + (controls.decay ?? buffer.duration) + 0.05);
+	}
+
+	private playDrum(name: string, time: number, controls: VoiceControls): void {
+		const context = this.context as AudioContext;
+		const envelope = context.createGain();
+		this.output(envelope, time, controls);
+
+		if (name === "bd") {
+			const body = context.createOscillator();
+			body.frequency.setValueAtTime(150, time);
+			body.frequency.exponentialRampToValueAtTime(45, time + 0.12);
+			envelope.gain.setValueAtTime(1, time);
+			envelope.gain.exponentialRampToValueAtTime(0.001, time + (controls.decay ?? 0.4));
+			body.connect(envelope);
+			body.start(time);
+			body.stop(time + 0.5);
+			return;
+		}
+
+		const decay =
+			controls.decay ?? { sd: 0.18, hh: 0.05, oh: 0.3, cp: 0.15, rim: 0.04 }[name] ?? 0.1;
+		const noise = context.createBufferSource();
+		noise.buffer = this.noise as AudioBuffer;
+		const colour = context.createBiquadFilter();
+		colour.type = name === "hh" || name === "oh" ? "highpass" : "bandpass";
+		colour.frequency.value = name === "hh" || name === "oh" ? 7000 : name === "rim" ? 2500 : 1500;
+		noise.connect(colour).connect(envelope);
+
+		envelope.gain.setValueAtTime(name === "hh" || name === "oh" ? 0.5 : 0.9, time);
+		envelope.gain.exponentialRampToValueAtTime(0.001, time + decay);
+		noise.start(time);
+		noise.stop(time + decay + 0.05);
+
+		// Snares get a short tonal body under the noise
+		if (name === "sd") {
+			const tone = context.createOscillator();
+			tone.type = "triangle";
+			tone.frequency.setValueAtTime(190, time);
+			tone.connect(envelope);
+			tone.start(time);
+			tone.stop(time + 0.08);
+		}
+	}
+
+	private playInstrument(
+		instrument: string,
+		frequency: number,
+		time: number,
+		duration: number,
+		controls: VoiceControls
+	): void {
+		const context = this.context as AudioContext;
+		const isPiano = instrument === "piano";
+
+		// Setting decay without sustain gives a plucked shape, as in Strudel
+		const attack = controls.attack ?? 0.005;
+		const decay = controls.decay ?? (isPiano ? 1.2 : 0.1);
+		const sustain = controls.sustain ?? (controls.decay !== undefined || isPiano ? 0 : 1);
+		const release = controls.release ?? 0.08;
+		const end = time + Math.max(duration, attack);
+
+		const envelope = context.createGain();
+		envelope.gain.setValueAtTime(0, time);
+		envelope.gain.linearRampToValueAtTime(1, time + attack);
+		envelope.gain.setTargetAtTime(sustain, time + attack, decay / 3);
+		envelope.gain.setValueAtTime(sustain, end);
+		envelope.gain.cancelScheduledValues(end);
+		envelope.gain.setTargetAtTime(0, end, release / 3);
+		this.output(envelope, time, controls);
+
+		const waveforms: Record<string, OscillatorType> = {
+			saw: "sawtooth",
+			sawtooth: "sawtooth",
+			square: "square",
+			sine: "sine",
+			tri: "triangle",
+			triangle: "triangle",
+			piano: "triangle",
+		};
+		const oscillator = context.createOscillator();
+		oscillator.type = waveforms[instrument] ?? "triangle";
+		oscillator.frequency.setValueAtTime(frequency, time);
+		oscillator.connect(envelope);
+		oscillator.start(time);
+		oscillator.stop(end + release * 2);
+
+		// A quiet octave overtone gives the piano a little brightness
+		if (isPiano) {
+			const overtone = context.createOscillator();
+			const overtoneLevel = context.createGain();
+			overtone.frequency.setValueAtTime(frequency * 2, time);
+			overtoneLevel.gain.value = 0.3;
+			overtone.connect(overtoneLevel).connect(envelope);
+			overtone.start(time);
+			overtone.stop(end + release * 2);
+		}
+	}
+}
@@ -0,0 +1,317 @@
+/**
+ * Strudel.cc Share URL Utilities
+ *
+ * Encodes and decodes pattern code in the same format strudel.cc uses for
+ * its share links: the code is UTF-8 encoded, base64 encoded, then
+ * URI-component escaped and placed in the URL hash.
+ *
+ * @module utils/strudel
+ */
+
+import type { ParsedPattern, PatternMix, PatternPart, PatternStem } from "../types";
+import { EXTERNAL_URLS, STRUDEL_DEFAULTS } from "../constants";
+
+// =============================================================================
+// CODEC
+// =============================================================================
+
+/**
+ * Encodes pattern code into a strudel.cc URL hash
+ *
+ * @param code - The Strudel pattern code
+ * @returns URL-safe hash string (without leading #)
+ *
+ * @example
+ * ```ts
+ * encodeStrudelCode('s("bd sd")'); // "cygiYmQgc2QiKQ%3D%3D"
+ * ```
+ */
+export function encodeStrudelCode(code: string): string {
+	const bytes = new TextEncoder().encode(code);
+	let binary = "";
+	for (const byte of bytes) {
+		binary += String.fromCharCode(byte);
+	}
+	return encodeURIComponent(btoa(binary));
+}
+
+/**
+ * Decodes a strudel.cc URL hash back into pattern code
+ *
+ * @param hash - The URL hash (with or without leading #)
+ * @returns The decoded pattern code
+ * @throws If the hash is not valid base64
+ */
+export function decodeStrudelCode(hash: string): string {
+	const cleanHash = hash.startsWith("#") ? hash.slice(1) : hash;
+	const binary = atob(decodeURIComponent(cleanHash));
+	const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+	return new TextDecoder().decode(bytes);
+}
+
+// =============================================================================
+// URL HELPERS
+// =============================================================================
+
+/**
+ * Builds a shareable strudel.cc URL for pattern code
+ *
+ * @param code - The Strudel pattern code
+ * @returns Full strudel.cc URL that opens the code in the editor
+ *
+ * @example
+ * ```ts
+ * window.open(buildStrudelUrl(pattern), "_blank");
+ * ```
+ */
+export function buildStrudelUrl(code: string): string {
+	return `${EXTERNAL_URLS.STRUDEL}/#${encodeStrudelCode(code)}`;
+}
+
+/**
+ * Extracts the pattern code from a strudel.cc share URL
+ *
+ * @param url - A strudel.cc share URL
+ * @returns The decoded pattern code, or undefined if the URL has no valid hash
+ */
+export function parseStrudelUrl(url: string): string | undefined {
+	const hashIndex = url.indexOf("#");
+	if (hashIndex === -1) return undefined;
+
+	try {
+		return decodeStrudelCode(url.slice(hashIndex + 1));
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Adds a generated `strudelUrl` to a data entry with a `pattern`
+ *
+ * @param entry - Any object with Strudel pattern code
+ * @returns The entry with its share URL derived from the pattern
+ */
+export function withStrudelUrl<T extends { readonly pattern: string }>(
+	entry: T
+): T & { readonly strudelUrl: string } {
+	return { ...entry, strudelUrl: buildStrudelUrl(entry.pattern) };
+}
+
+// =============================================================================
+// COMMENTS
+// =============================================================================
+
+/** A string literal, or a line comment (captured) */
+const STRING_OR_COMMENT_REGEX =
+	/"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|`(?:[^`\\]|\\.)*`|(\/\/[^\n]*)/g;
+
+/**
+ * Replaces line comments with spaces, leaving strings and offsets intact
+ *
+ * Lets code scanners skip commented-out code (such as muted stems)
+ * while still reporting positions in the original text.
+ *
+ * @param code - The Strudel pattern code
+ * @returns The code with every comment blanked out
+ *
+ * @example
+ * ```ts
+ * blankComments('s("bd") // kick'); // 's("bd")        '
+ * ```
+ */
+export function blankComments(code: string): string {
+	return code.replace(STRING_OR_COMMENT_REGEX, (match, comment?: string) =>
+		comment === undefined ? match : " ".repeat(comment.length)
+	);
+}
+
+// =============================================================================
+// PATTERN PARTS
+// =============================================================================
+
+/** Matches a part header comment such as `// #reetwiz - Drums & Percussion` */
+const PART_HEADER_REGEX = /^\s*\/\/\s*#([\w-]+)\s+-\s+(.+?)\s*$/;
+
+/**
+ * Splits a song pattern into its preamble and per-member stems
+ *
+ * Joining the preamble and every stem's code with newlines gives back
+ * the original pattern.
+ *
+ * @param code - The Strudel pattern code
+ * @returns The preamble and stems in the order their headers appear
+ *
+ * @example
+ * ```ts
+ * const { stems } = parsePattern(song.pattern);
+ * stems.map((s) => s.memberId); // ["reetwiz", "aadish", ...]
+ * ```
+ */
+export function parsePattern(code: string): ParsedPattern {
+	const preamble: string[] = [];
+	const stems: { memberId: string; part: string; lines: string[] }[] = [];
+
+	for (const line of code.split("\n")) {
+		const match = line.match(PART_HEADER_REGEX);
+		if (match) {
+			stems.push({ memberId: match[1], part: match[2], lines: [line] });
+		} else if (stems.length > 0) {
+			stems[stems.length - 1].lines.push(line);
+		} else {
+			preamble.push(line);
+		}
+	}
+
+	return {
+		preamble: preamble.join("\n"),
+		stems: stems.map(({ memberId, part, lines }) => ({
+			memberId,
+			part,
+			code: lines.join("\n"),
+		})),
+	};
+}
+
+/**
+ * Lists the band members' parts declared in a song pattern
+ *
+ * @param code - The Strudel pattern code
+ * @returns Parts in the order their headers appear
+ *
+ * @example
+ * ```ts
+ * getPatternParts("// #aadish - Bass\n$: note(\"a1\")");
+ * // [{ memberId: "aadish", part: "Bass" }]
+ * ```
+ */
+export function getPatternParts(code: string): readonly PatternPart[] {
+	return parsePattern(code).stems.map(({ memberId, part }) => ({ memberId, part }));
+}
+
+/**
+ * Checks whether a member's stem plays under a mix
+ *
+ * @param memberId - The stem's member id
+ * @param mix - The soloed and muted member ids
+ * @returns True if the stem is audible
+ */
+export function isStemAudible(memberId: string, mix: PatternMix): boolean {
+	if (mix.soloed.length > 0) return mix.soloed.includes(memberId);
+	return !mix.muted.includes(memberId);
+}
+
+/**
+ * Comments out every line of a stem except its header and existing comments
+ */
+function silenceStem(stem: PatternStem): string {
+	return stem.code
+		.split("\n")
+		.map((line, index) =>
+			index === 0 || line.trim() === "" || line.trim().startsWith("//")
+				? line
+				: line.replace(/^(\s*)/, "$1// ")
+		)
+		.join("\n");
+}
+
+/**
+ * Regenerates pattern code with the silent stems commented out
+ *
+ * Silent stems stay in the code so they can be re-enabled in the Strudel editor.
+ *
+ * @param code - The Strudel pattern code
+ * @param mix - The soloed and muted member ids
+ * @returns The pattern code as heard under the mix
+ *
+ * @example
+ * ```ts
+ * buildStrudelUrl(mixPattern(song.pattern, { soloed: ["aadish"], muted: [] }));
+ * ```
+ */
+export function mixPattern(code: string, mix: PatternMix): string {
+	if (mix.soloed.length === 0 && mix.muted.length === 0) return code;
+
+	const { preamble, stems } = parsePattern(code);
+	if (stems.length === 0) return code;
+
+	const stemCode = stems.map((stem) =>
+		isStemAudible(stem.memberId, mix) ? stem.code : silenceStem(stem)
+	);
+	return [preamble, ...stemCode].join("\n");
+}
+
+// =============================================================================
+// TEMPO
+// =============================================================================
+
+/** Matches a whole-line `setcps(...)` or `setcpm(...)` tempo declaration */
+const TEMPO_LINE_REGEX = /^\s*setcp[ms]\([^)]*\)\s*;?\s*$/;
+
+/** Beats per cycle assumed when converting BPM to cycles per minute */
+const BEATS_PER_CYCLE = 4;
+
+/**
+ * Clamps a tempo to the range Strudel patterns on the site support
+ *
+ * @param bpm - The requested tempo
+ * @returns The tempo rounded and clamped to `STRUDEL_DEFAULTS.MIN_BPM`..`MAX_BPM`
+ */
+export function clampBpm(bpm: number): number {
+	if (!Number.isFinite(bpm)) return STRUDEL_DEFAULTS.DEFAULT_BPM;
+	return Math.min(STRUDEL_DEFAULTS.MAX_BPM, Math.max(STRUDEL_DEFAULTS.MIN_BPM, Math.round(bpm)));
+}
+
+/**
+ * Sets the tempo of pattern code
+ *
+ * Replaces an existing `setcps`/`setcpm` line, or inserts a `setcpm` line
+ * after the leading comment block (before the first part header).
+ *
+ * @param code - The Strudel pattern code
+ * @param bpm - The tempo in beats per minute (clamped)
+ * @returns The pattern code with its tempo declaration
+ *
+ * @example
+ * ```ts
+ * setPatternTempo('s("bd sd")', 90); // 'setcpm(90/4)\n\ns("bd sd")'
+ * ```
+ */
+export function setPatternTempo(code: string, bpm: number): string {
+	const declaration = `setcpm(${clampBpm(bpm)}/${BEATS_PER_CYCLE})`;
+	const lines = code.split("\n");
+
+	const tempoIndex = lines.findIndex((line) => TEMPO_LINE_REGEX.test(line));
+	if (tempoIndex !== -1) {
+		const indent = lines[tempoIndex].match(/^\s*/)?.[0] ?? "";
+		lines[tempoIndex] = `${indent}${declaration}`;
+		return lines.join("\n");
+	}
+
+	const insertIndex = lines.findIndex(
+		(line) => PART_HEADER_REGEX.test(line) || (line.trim() !== "" && !line.trim().startsWith("//"))
+	);
+	if (insertIndex === -1) return [...lines, declaration].join("\n");
+
+	lines.splice(insertIndex, 0, declaration, "");
+	return lines.join("\n");
+}
+
+/**
+ * Estimates a tempo from tap timestamps
+ *
+ * @param taps - Tap times in milliseconds, oldest first
+ * @returns The clamped tempo, or undefined until there are at least two taps
+ *
+ * @example
+ * ```ts
+ * getTapTempo([0, 500, 1000, 1500]); // 120
+ * ```
+ */
+export function getTapTempo(taps: readonly number[]): number | undefined {
+	if (taps.length < 2) return undefined;
+
+	const averageInterval = (taps[taps.length - 1] - taps[0]) / (taps.length - 1);
+	if (averageInterval <= 0) return undefined;
+
+	return clampBpm(60000 / averageInterval);
+}
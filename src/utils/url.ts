@@ -173,6 +173,76 @@ export function buildYouTubeUrl(id: string, type: "video" | "playlist" = "video"
 	return `${EXTERNAL_URLS.YOUTUBE}/watch?v=${encodeURIComponent(id)}`;
 }
 
+/**
+ * Extracts the content type and ID from a Spotify URL
+ *
+ * @param url - An open.spotify.com track, album, playlist or artist URL
+ * @returns The content type and ID, or undefined if the URL isn't a Spotify link
+ *
+ * @example
+ * ```ts
+ * parseSpotifyUrl("https://open.spotify.com/album/abc123"); // { type: "album", id: "abc123" }
+ * ```
+ */
+export function parseSpotifyUrl(
+	url: string
+): { type: "track" | "album" | "playlist" | "artist"; id: string } | undefined {
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		return undefined;
+	}
+	if (parsed.hostname !== new URL(EXTERNAL_URLS.SPOTIFY).hostname) return undefined;
+
+	const match = parsed.pathname.match(
+		/^\/(?:intl-[\w-]+\/)?(track|album|playlist|artist)\/([\w-]+)/
+	);
+	if (!match) return undefined;
+
+	return { type: match[1] as "track" | "album" | "playlist" | "artist", id: match[2] };
+}
+
+/**
+ * Extracts the video or playlist ID from a YouTube URL
+ *
+ * Handles `watch?v=`, `playlist?list=`, `youtu.be/`, `/embed/` and `/shorts/` links.
+ *
+ * @param url - A YouTube video or playlist URL
+ * @returns The content type and ID, or undefined if the URL isn't a YouTube link
+ *
+ * @example
+ * ```ts
+ * parseYouTubeUrl("https://youtu.be/dQw4w9WgXcQ"); // { type: "video", id: "dQw4w9WgXcQ" }
+ * ```
+ */
+export function parseYouTubeUrl(
+	url: string
+): { type: "video" | "playlist"; id: string } | undefined {
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		return undefined;
+	}
+	const host = parsed.hostname.replace(/^(www|m|music)\./, "");
+
+	if (host === "youtu.be") {
+		const id = parsed.pathname.slice(1).split("/")[0];
+		return id ? { type: "video", id } : undefined;
+	}
+	if (host !== "youtube.com") return undefined;
+
+	const videoId = parsed.searchParams.get("v");
+	if (videoId) return { type: "video", id: videoId };
+
+	const listId = parsed.searchParams.get("list");
+	if (listId) return { type: "playlist", id: listId };
+
+	const match = parsed.pathname.match(/^\/(?:embed|shorts)\/([\w-]+)/);
+	return match ? { type: "video", id: match[1] } : undefined;
+}
+
 /**
  * Builds an Instagram profile URL
  *
@@ -12,10 +12,25 @@ import {
 	RELEASE_TYPES,
 	PATTERN_CATEGORIES,
 	DIFFICULTY_LEVELS,
+	MUSICAL_MODES,
+	SONG_SECTION_NAMES,
+	JSON_LD_TYPES,
+	MUSIC_ALBUM_RELEASE_TYPES,
+	type JsonLdType,
+	type MusicalMode,
 	type Release,
 	type BandMember,
 	type StrudelPattern,
+	type Song,
+	type Album,
+	type Post,
 } from "../types";
+import { STRUDEL_BANKS, STRUDEL_DEFAULTS, STRUDEL_SOUNDS } from "../constants";
+import { noteToMidi, parseMiniNotation } from "./mini-notation";
+import { blankComments, getPatternParts, parseStrudelUrl } from "./strudel";
+import { LRC_TIMESTAMP_REGEX, parseTimestamp } from "./lyrics";
+import { getNotesOutsideKey, parseChordSymbol } from "./chords";
+import { SCHEMA_ORG_CONTEXT } from "./structured-data";
 
 // =============================================================================
 // VALIDATION RESULT TYPES
@@ -25,6 +40,9 @@ export interface ValidationError {
 	readonly field: string;
 	readonly message: string;
 	readonly value?: unknown;
+	/** 1-based position in a multi-line field such as a pattern */
+	readonly line?: number;
+	readonly column?: number;
 }
 
 export interface ValidationResult<T> {
@@ -129,6 +147,29 @@ function validateUrl(value: unknown, field: string): ValidationError | null {
 	return null;
 }
 
+/**
+ * Validates that a strudel.cc share URL decodes to the given pattern code
+ */
+function validateStrudelUrlMatchesPattern(
+	value: unknown,
+	pattern: unknown,
+	field: string
+): ValidationError | null {
+	const urlError = validateUrl(value, field);
+	if (urlError) return urlError;
+
+	const decoded = parseStrudelUrl(value as string);
+	if (decoded === undefined) {
+		return { field, message: `${field} does not contain a valid Strudel code hash`, value };
+	}
+
+	if (decoded !== pattern) {
+		return { field, message: `${field} does not decode to the displayed pattern`, value: decoded };
+	}
+
+	return null;
+}
+
 /**
  * Validates an ISO date string
  */
@@ -150,6 +191,22 @@ function validateDateString(value: unknown, field: string): ValidationError | nu
 	return null;
 }
 
+/**
+ * Validates a track duration string in m:ss format
+ */
+function validateDuration(value: unknown, field: string): ValidationError | null {
+	if (typeof value !== "string") {
+		return { field, message: `${field} must be a duration string`, value };
+	}
+
+	const durationPattern = /^\d+:[0-5]\d$/;
+	if (!durationPattern.test(value)) {
+		return { field, message: `${field} must be in m:ss format`, value };
+	}
+
+	return null;
+}
+
 /**
  * Validates that a value is one of the allowed values
  */
@@ -168,6 +225,604 @@ function validateEnum<T extends readonly string[]>(
 	return null;
 }
 
+// =============================================================================
+// PATTERN LINTING
+// =============================================================================
+
+const STRING_LITERAL = /"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|`(?:[^`\\]|\\.)*`/.source;
+
+/** Calls whose first argument is linted, with that argument as a string or number */
+const LINTED_CALL_REGEX =
+	/\b(s|sound|note|bank|gain)\s*\(\s*(?:"((?:[^"\\\n]|\\.)*)"|'((?:[^'\\\n]|\\.)*)'|(-?\d*\.?\d+))?/g;
+
+/** Mini-notation atoms, skipping the numbers in `*n` and `/n` */
+const MINI_ATOM_REGEX = /(?<![*/\w#.:-])[\w#.:-]+/g;
+
+/**
+ * Converts an offset in multi-line text to a 1-based line and column
+ */
+function getLineAndColumn(text: string, offset: number): { line: number; column: number } {
+	const lines = text.slice(0, offset).split("\n");
+	return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+/**
+ * Lints Strudel pattern code
+ *
+ * Checks that brackets balance in the method chain and in every
+ * mini-notation string, that `s()` sounds, sample indices and `.bank()`
+ * names exist on strudel.cc, that `note()` names fall within
+ * `LOWEST_NOTE`–`HIGHEST_NOTE`, and that no `.gain()` exceeds `MAX_GAIN`.
+ *
+ * @param code - The pattern code
+ * @param field - Field name to report errors under
+ * @returns Validation errors with the line and column of each problem (empty if clean)
+ *
+ * @example
+ * ```ts
+ * lintStrudelPattern('s("bd [sd").gain(1.5)');
+ * // [{ field: "pattern", message: 'unbalanced "[": missing "]" (line 1, column 7)', value: "bd [sd", line: 1, column: 7 }, ...]
+ * ```
+ */
+export function lintStrudelPattern(code: string, field = "pattern"): readonly ValidationError[] {
+	const errors: ValidationError[] = [];
+	const report = (offset: number, message: string, value?: unknown) => {
+		const { line, column } = getLineAndColumn(code, offset);
+		errors.push({
+			field,
+			message: `${message} (line ${line}, column ${column})`,
+			value,
+			line,
+			column,
+		});
+	};
+
+	// Commented-out code isn't linted
+	const source = blankComments(code);
+
+	// Method-chain brackets, ignoring any inside strings
+	const opened: number[] = [];
+	for (const match of source.matchAll(new RegExp(`${STRING_LITERAL}|[()]`, "g"))) {
+		if (match[0] === "(") opened.push(match.index);
+		else if (match[0] === ")" && opened.pop() === undefined) report(match.index, 'unbalanced ")"');
+	}
+	for (const offset of opened) report(offset, 'unbalanced "(": missing ")"');
+
+	for (const match of source.matchAll(LINTED_CALL_REGEX)) {
+		const [, name, doubleQuoted, singleQuoted, number] = match;
+		const text = doubleQuoted ?? singleQuoted;
+
+		if (text === undefined) {
+			if (name === "gain" && number !== undefined && Number(number) > STRUDEL_DEFAULTS.MAX_GAIN) {
+				report(match.index, `gain ${number} is above ${STRUDEL_DEFAULTS.MAX_GAIN}`, Number(number));
+			}
+			continue;
+		}
+
+		// Offset of the string's contents, just inside the opening quote
+		const textOffset = match.index + match[0].length - 1 - text.length;
+
+		if (name === "bank") {
+			if (!(STRUDEL_BANKS as readonly string[]).includes(text)) {
+				report(textOffset, `unknown bank "${text}"`, text);
+			}
+			continue;
+		}
+
+		const parsed = parseMiniNotation(text);
+		if (!parsed.success) {
+			report(textOffset + parsed.position, parsed.error, text);
+			continue;
+		}
+
+		for (const atom of text.matchAll(MINI_ATOM_REGEX)) {
+			const [value] = atom;
+			const offset = textOffset + atom.index;
+
+			if (name === "gain") {
+				if (Number(value) > STRUDEL_DEFAULTS.MAX_GAIN) {
+					report(offset, `gain ${value} is above ${STRUDEL_DEFAULTS.MAX_GAIN}`, Number(value));
+				}
+			} else if (name === "note") {
+				const midi = noteToMidi(value);
+				if (midi === undefined) {
+					report(offset, `"${value}" is not a note name`, value);
+				} else if (midi < STRUDEL_DEFAULTS.LOWEST_NOTE || midi > STRUDEL_DEFAULTS.HIGHEST_NOTE) {
+					report(offset, `note "${value}" is out of range (a0 to c8)`, value);
+				}
+			} else {
+				const [sound, sampleIndex] = value.split(":");
+				if (!(STRUDEL_SOUNDS as readonly string[]).includes(sound)) {
+					report(offset, `unknown sound "${sound}"`, value);
+				} else if (sampleIndex !== undefined && !/^\d+$/.test(sampleIndex)) {
+					report(offset, `sample index in "${value}" must be a whole number`, value);
+				}
+			}
+		}
+	}
+
+	return errors;
+}
+
+// =============================================================================
+// LYRICS VALIDATION
+// =============================================================================
+
+/** A bracketed timestamp-like prefix, well-formed or not */
+const LRC_PREFIX_REGEX = /^\s*\[([^\]]*)\]/;
+
+/**
+ * Validates song lyrics
+ *
+ * Checks that `text` (and `romanized`, if present) are strings, that any
+ * line starting with `[...]` has a valid `[mm:ss.xx]` timestamp, that the
+ * transliteration has the same number of lines as the text, and that
+ * timed lyrics time every line, in order, within the song's duration.
+ *
+ * @param data - The lyrics to validate
+ * @param field - Field name to report errors under
+ * @param duration - The song's `m:ss` duration, to bound the timestamps
+ * @returns Validation errors with the line of each problem (empty if valid)
+ *
+ * @example
+ * ```ts
+ * validateLyrics({ text: "[00:10.00] पहिलो\n[00:05.00] दोस्रो" });
+ * // [{ field: "lyrics.text", message: "timestamp 00:05.00 comes before the previous line's (line 2)", line: 2 }]
+ * ```
+ */
+export function validateLyrics(
+	data: unknown,
+	field = "lyrics",
+	duration?: string
+): readonly ValidationError[] {
+	if (!data || typeof data !== "object") {
+		return [{ field, message: `${field} must be an object`, value: data }];
+	}
+
+	const lyrics = data as Record<string, unknown>;
+	const errors: ValidationError[] = [];
+
+	const textError = validateString(lyrics.text, `${field}.text`, { minLength: 1 });
+	if (textError) errors.push(textError);
+	if (lyrics.romanized !== undefined) {
+		const romanizedError = validateString(lyrics.romanized, `${field}.romanized`, {
+			minLength: 1,
+		});
+		if (romanizedError) errors.push(romanizedError);
+	}
+	if (errors.length > 0) return errors;
+
+	const maxSeconds = duration === undefined ? undefined : parseTimestamp(duration);
+	const lineCounts: number[] = [];
+
+	for (const key of ["text", "romanized"] as const) {
+		const text = lyrics[key];
+		if (typeof text !== "string") continue;
+
+		const lineField = `${field}.${key}`;
+		const report = (line: number, message: string, value?: unknown) => {
+			errors.push({ field: lineField, message: `${message} (line ${line})`, value, line });
+		};
+
+		const lines = text
+			.split("\n")
+			.map((content, index) => ({ content, line: index + 1 }))
+			.filter(({ content }) => content.trim() !== "");
+		lineCounts.push(lines.length);
+
+		let previousTime = -1;
+		let timedLines = 0;
+		for (const { content, line } of lines) {
+			const prefix = LRC_PREFIX_REGEX.exec(content);
+			if (!prefix) continue;
+
+			const timestamp = LRC_TIMESTAMP_REGEX.exec(content);
+			const seconds = timestamp ? parseTimestamp(timestamp[1]) : undefined;
+			if (seconds === undefined) {
+				report(line, `"[${prefix[1]}]" is not a timestamp like [01:23.45]`, prefix[0]);
+				continue;
+			}
+
+			timedLines += 1;
+			if (seconds < previousTime) {
+				report(line, `timestamp ${prefix[1]} comes before the previous line's`, prefix[1]);
+			}
+			if (maxSeconds !== undefined && seconds > maxSeconds) {
+				report(line, `timestamp ${prefix[1]} is past the song's ${duration} duration`, prefix[1]);
+			}
+			previousTime = seconds;
+		}
+
+		if (timedLines > 0 && timedLines < lines.length) {
+			const untimed = lines.find(({ content }) => !LRC_PREFIX_REGEX.test(content));
+			if (untimed) {
+				report(untimed.line, "line has no timestamp; time every line or none", untimed.content);
+			}
+		}
+	}
+
+	if (lineCounts.length === 2 && lineCounts[0] !== lineCounts[1]) {
+		errors.push({
+			field: `${field}.romanized`,
+			message: `romanized has ${lineCounts[1]} lines but text has ${lineCounts[0]}`,
+			value: lineCounts[1],
+		});
+	}
+
+	return errors;
+}
+
+// =============================================================================
+// MUSICAL METADATA VALIDATION
+// =============================================================================
+
+/**
+ * Validates a song's key, time signature and sections
+ *
+ * Checks each field's format, that every chord symbol can be read, that
+ * a section has no more chords than bars, and that each chord's notes
+ * belong to the declared key (minor keys allow the raised 6th and 7th).
+ *
+ * @param data - The musical metadata to validate
+ * @param field - Field name to report errors under
+ * @returns Validation errors (empty if valid)
+ *
+ * @example
+ * ```ts
+ * validateMusicalMetadata({
+ * 	key: "A",
+ * 	mode: "minor",
+ * 	timeSignature: "4/4",
+ * 	sections: [{ name: "verse", bars: 4, chords: ["Am", "F", "C#", "G"] }],
+ * });
+ * // [{ field: "music.sections[0].chords[2]", message: "C# in the verse has notes outside A minor: C#", value: "C#" }]
+ * ```
+ */
+export function validateMusicalMetadata(
+	data: unknown,
+	field = "music"
+): readonly ValidationError[] {
+	if (!data || typeof data !== "object") {
+		return [{ field, message: `${field} must be an object`, value: data }];
+	}
+
+	const music = data as Record<string, unknown>;
+	const errors: ValidationError[] = [];
+
+	const keyError = validateString(music.key, `${field}.key`, { pattern: /^[A-G][#b]?$/ });
+	if (keyError) errors.push(keyError);
+
+	const modeError = validateEnum(music.mode, `${field}.mode`, MUSICAL_MODES);
+	if (modeError) errors.push(modeError);
+
+	const timeSignatureError = validateString(music.timeSignature, `${field}.timeSignature`, {
+		pattern: /^\d+\/(1|2|4|8|16)$/,
+	});
+	if (timeSignatureError) errors.push(timeSignatureError);
+
+	if (!Array.isArray(music.sections)) {
+		errors.push({
+			field: `${field}.sections`,
+			message: `${field}.sections must be an array`,
+			value: music.sections,
+		});
+		return errors;
+	}
+
+	const key = keyError || modeError ? undefined : `${music.key as string} ${music.mode as string}`;
+
+	music.sections.forEach((value: unknown, index) => {
+		const sectionField = `${field}.sections[${index}]`;
+		if (!value || typeof value !== "object") {
+			errors.push({ field: sectionField, message: `${sectionField} must be an object`, value });
+			return;
+		}
+
+		const section = value as Record<string, unknown>;
+		const nameError = validateEnum(section.name, `${sectionField}.name`, SONG_SECTION_NAMES);
+		if (nameError) errors.push(nameError);
+
+		const barsError = validateNumber(section.bars, `${sectionField}.bars`, { min: 1 });
+		if (barsError) errors.push(barsError);
+		else if (!Number.isInteger(section.bars)) {
+			errors.push({
+				field: `${sectionField}.bars`,
+				message: `${sectionField}.bars must be a whole number`,
+				value: section.bars,
+			});
+		}
+
+		if (!Array.isArray(section.chords) || section.chords.length === 0) {
+			errors.push({
+				field: `${sectionField}.chords`,
+				message: `${sectionField}.chords must be a non-empty array`,
+				value: section.chords,
+			});
+			return;
+		}
+		if (!barsError && section.chords.length > (section.bars as number)) {
+			errors.push({
+				field: `${sectionField}.chords`,
+				message: `${section.chords.length} chords don't fit in ${section.bars as number} bars`,
+				value: section.chords,
+			});
+		}
+
+		section.chords.forEach((chord: unknown, chordIndex) => {
+			const chordField = `${sectionField}.chords[${chordIndex}]`;
+			if (typeof chord !== "string" || !parseChordSymbol(chord)) {
+				errors.push({
+					field: chordField,
+					message: `${String(chord)} is not a chord symbol like Am, F#m7 or C/E`,
+					value: chord,
+				});
+				return;
+			}
+			if (key === undefined) return;
+
+			const outside = getNotesOutsideKey(chord, music.key as string, music.mode as MusicalMode);
+			if (outside.length > 0) {
+				errors.push({
+					field: chordField,
+					message: `${chord} in the ${String(section.name)} has notes outside ${key}: ${outside.join(", ")}`,
+					value: chord,
+				});
+			}
+		});
+	});
+
+	return errors;
+}
+
+// =============================================================================
+// STRUCTURED DATA VALIDATION
+// =============================================================================
+
+/** What a schema.org property holds: a data type, an enumeration or a node type */
+type SchemaOrgRange =
+	| "Text"
+	| "URL"
+	| "Date"
+	| "Duration"
+	| "Integer"
+	| "MusicAlbumReleaseType"
+	| JsonLdType;
+
+/**
+ * The part of the schema.org vocabulary the site's JSON-LD uses
+ *
+ * Every property is one schema.org defines on the type (or a parent type).
+ * Any property may hold a list of values.
+ */
+const SCHEMA_ORG_VOCABULARY: Readonly<
+	Record<
+		JsonLdType,
+		{
+			readonly required: readonly string[];
+			readonly properties: Readonly<Record<string, SchemaOrgRange>>;
+		}
+	>
+> = {
+	MusicGroup: {
+		required: ["name", "url"],
+		properties: {
+			name: "Text",
+			url: "URL",
+			description: "Text",
+			logo: "URL",
+			sameAs: "URL",
+			member: "Person",
+			album: "MusicAlbum",
+		},
+	},
+	Person: {
+		required: ["name", "url"],
+		properties: {
+			name: "Text",
+			url: "URL",
+			jobTitle: "Text",
+			description: "Text",
+			image: "URL",
+			sameAs: "URL",
+			memberOf: "MusicGroup",
+		},
+	},
+	MusicAlbum: {
+		required: ["name", "url"],
+		properties: {
+			name: "Text",
+			url: "URL",
+			description: "Text",
+			image: "URL",
+			datePublished: "Date",
+			albumReleaseType: "MusicAlbumReleaseType",
+			byArtist: "MusicGroup",
+			numTracks: "Integer",
+			track: "MusicRecording",
+			sameAs: "URL",
+		},
+	},
+	MusicRecording: {
+		required: ["name", "url"],
+		properties: {
+			name: "Text",
+			url: "URL",
+			description: "Text",
+			image: "URL",
+			duration: "Duration",
+			datePublished: "Date",
+			byArtist: "MusicGroup",
+			inAlbum: "MusicAlbum",
+			sameAs: "URL",
+		},
+	},
+};
+
+/** ISO 8601 duration with time parts only, e.g. "PT3M48S" */
+const ISO_DURATION_REGEX = /^PT(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?$/;
+
+/**
+ * Checks a property value against its schema.org range
+ */
+function validateSchemaOrgValue(
+	value: unknown,
+	range: SchemaOrgRange,
+	field: string
+): readonly ValidationError[] {
+	const invalid = (expected: string): readonly ValidationError[] => [
+		{ field, message: `${field} must be ${expected}`, value },
+	];
+
+	switch (range) {
+		case "Text":
+			return typeof value === "string" && value.trim() !== "" ? [] : invalid("non-empty text");
+		case "URL":
+			return typeof value === "string" && /^https?:\/\/[^/\s]+/.test(value)
+				? []
+				: invalid("an absolute URL");
+		case "Date": {
+			const error = validateDateString(value, field);
+			return error ? [error] : [];
+		}
+		case "Duration":
+			return typeof value === "string" && ISO_DURATION_REGEX.test(value)
+				? []
+				: invalid("an ISO 8601 duration like PT3M48S");
+		case "Integer":
+			return Number.isInteger(value) && (value as number) >= 0 ? [] : invalid("a whole number");
+		case "MusicAlbumReleaseType": {
+			const error = validateEnum(value, field, MUSIC_ALBUM_RELEASE_TYPES);
+			return error ? [error] : [];
+		}
+		default:
+			return validateJsonLdNode(value, field, range);
+	}
+}
+
+/**
+ * Checks a JSON-LD node's type, required properties and property values
+ */
+function validateJsonLdNode(
+	data: unknown,
+	field: string,
+	expectedType?: JsonLdType
+): readonly ValidationError[] {
+	if (!data || typeof data !== "object" || Array.isArray(data)) {
+		return [{ field, message: `${field} must be a JSON-LD node`, value: data }];
+	}
+
+	const node = data as Record<string, unknown>;
+	const type = node["@type"];
+	if (!JSON_LD_TYPES.includes(type as JsonLdType)) {
+		return [
+			{
+				field: `${field}["@type"]`,
+				message: `${String(type)} is not one of the schema.org types used: ${JSON_LD_TYPES.join(", ")}`,
+				value: type,
+			},
+		];
+	}
+	if (expectedType && type !== expectedType) {
+		return [
+			{
+				field: `${field}["@type"]`,
+				message: `${field} must be a ${expectedType}, not a ${String(type)}`,
+				value: type,
+			},
+		];
+	}
+
+	const { required, properties } = SCHEMA_ORG_VOCABULARY[type as JsonLdType];
+	const errors: ValidationError[] = required
+		.filter((property) => node[property] === undefined)
+		.map((property) => ({
+			field: `${field}.${property}`,
+			message: `${type as string} needs a ${property}`,
+		}));
+
+	for (const [property, value] of Object.entries(node)) {
+		if (property === "@type" || property === "@context") continue;
+
+		const propertyField = `${field}.${property}`;
+		const range = properties[property];
+		if (!range) {
+			errors.push({
+				field: propertyField,
+				message: `${property} is not a ${type as string} property in the vocabulary used`,
+				value,
+			});
+			continue;
+		}
+
+		const values = Array.isArray(value) ? value : [value];
+		values.forEach((item: unknown, index) => {
+			const itemField = Array.isArray(value) ? `${propertyField}[${index}]` : propertyField;
+			errors.push(...validateSchemaOrgValue(item, range, itemField));
+		});
+	}
+
+	return errors;
+}
+
+/**
+ * Validates a JSON-LD document against the schema.org vocabulary the site uses
+ *
+ * Checks the `@context`, that every node is a `MusicGroup`, `Person`,
+ * `MusicAlbum` or `MusicRecording` with a name and URL, that it only has
+ * properties schema.org defines for its type, and that each value has the
+ * property's type: absolute URLs, ISO 8601 dates and durations, nested
+ * nodes of the right type.
+ *
+ * @param data - A JSON-LD document, as parsed from `serializeJsonLd`
+ * @param field - Field name to report errors under
+ * @returns Validation errors (empty if valid)
+ *
+ * @example
+ * ```ts
+ * validateStructuredData({
+ * 	"@context": "https://schema.org",
+ * 	"@type": "MusicRecording",
+ * 	name: "Asha",
+ * 	url: "https://wizreet.github.io/inzies/play/?song=song-asha",
+ * 	duration: "3:48",
+ * });
+ * // [{ field: "structuredData.duration", message: "structuredData.duration must be an ISO 8601 duration like PT3M48S", value: "3:48" }]
+ * ```
+ */
+export function validateStructuredData(
+	data: unknown,
+	field = "structuredData"
+): readonly ValidationError[] {
+	if (!data || typeof data !== "object") {
+		return [{ field, message: `${field} must be an object`, value: data }];
+	}
+
+	const document = data as Record<string, unknown>;
+	if (document["@context"] !== SCHEMA_ORG_CONTEXT) {
+		return [
+			{
+				field: `${field}["@context"]`,
+				message: `${field} must have the ${SCHEMA_ORG_CONTEXT} context`,
+				value: document["@context"],
+			},
+		];
+	}
+
+	if (document["@graph"] === undefined) return validateJsonLdNode(document, field);
+	if (!Array.isArray(document["@graph"])) {
+		return [
+			{
+				field: `${field}["@graph"]`,
+				message: `${field}["@graph"] must be an array`,
+				value: document["@graph"],
+			},
+		];
+	}
+	return document["@graph"].flatMap((node: unknown, index) =>
+		validateJsonLdNode(node, `${field}["@graph"][${index}]`)
+	);
+}
+
 // =============================================================================
 // DATA VALIDATORS
 // =============================================================================
@@ -283,6 +938,7 @@ export function validateBandMember(data: unknown): ValidationResult<BandMember>
  * Validates a StrudelPattern object
  * @param data - The data to validate
  * @returns Validation result with typed data if successful
+ * @deprecated Patterns are songs now; use `validateSong`
  */
 export function validateStrudelPattern(data: unknown): ValidationResult<StrudelPattern> {
 	const errors: ValidationError[] = [];
@@ -305,8 +961,13 @@ export function validateStrudelPattern(data: unknown): ValidationResult<StrudelP
 
 	const patternCodeError = validateString(pattern.pattern, "pattern", { minLength: 1 });
 	if (patternCodeError) errors.push(patternCodeError);
+	else errors.push(...lintStrudelPattern(pattern.pattern as string));
 
-	const strudelUrlError = validateUrl(pattern.strudelUrl, "strudelUrl");
+	const strudelUrlError = validateStrudelUrlMatchesPattern(
+		pattern.strudelUrl,
+		pattern.pattern,
+		"strudelUrl"
+	);
 	if (strudelUrlError) errors.push(strudelUrlError);
 
 	const bpmError = validateNumber(pattern.bpm, "bpm", { min: 20, max: 300 });
@@ -325,6 +986,297 @@ export function validateStrudelPattern(data: unknown): ValidationResult<StrudelP
 	return { success: true, data: data as StrudelPattern, errors: [] };
 }
 
+/**
+ * Validates a Song object
+ * @param data - The data to validate
+ * @param context - Albums to resolve `albumId` against and band members to resolve
+ * part headers against (each skipped if omitted)
+ * @returns Validation result with typed data if successful
+ */
+export function validateSong(
+	data: unknown,
+	context: { readonly albums?: readonly Album[]; readonly members?: readonly BandMember[] } = {}
+): ValidationResult<Song> {
+	const errors: ValidationError[] = [];
+
+	if (!data || typeof data !== "object") {
+		return { success: false, errors: [{ field: "song", message: "Song must be an object" }] };
+	}
+
+	const song = data as Record<string, unknown>;
+
+	// Required fields
+	const idError = validateString(song.id, "id", { minLength: 1 });
+	if (idError) errors.push(idError);
+
+	const titleError = validateString(song.title, "title", { minLength: 1, maxLength: 200 });
+	if (titleError) errors.push(titleError);
+
+	const albumError = validateString(song.album, "album", { minLength: 1 });
+	if (albumError) errors.push(albumError);
+
+	const albumIdError = validateString(song.albumId, "albumId", { minLength: 1 });
+	if (albumIdError) errors.push(albumIdError);
+
+	const descriptionError = validateString(song.description, "description");
+	if (descriptionError) errors.push(descriptionError);
+
+	const coverArtError = validateString(song.coverArt, "coverArt");
+	if (coverArtError) errors.push(coverArtError);
+
+	const patternCodeError = validateString(song.pattern, "pattern", { minLength: 1 });
+	if (patternCodeError) errors.push(patternCodeError);
+	else errors.push(...lintStrudelPattern(song.pattern as string));
+
+	const strudelUrlError = validateStrudelUrlMatchesPattern(
+		song.strudelUrl,
+		song.pattern,
+		"strudelUrl"
+	);
+	if (strudelUrlError) errors.push(strudelUrlError);
+
+	const bpmError = validateNumber(song.bpm, "bpm", {
+		min: STRUDEL_DEFAULTS.MIN_BPM,
+		max: STRUDEL_DEFAULTS.MAX_BPM,
+	});
+	if (bpmError) errors.push(bpmError);
+
+	const durationError = validateDuration(song.duration, "duration");
+	if (durationError) errors.push(durationError);
+
+	const categoryError = validateEnum(song.category, "category", PATTERN_CATEGORIES);
+	if (categoryError) errors.push(categoryError);
+
+	const difficultyError = validateEnum(song.difficulty, "difficulty", DIFFICULTY_LEVELS);
+	if (difficultyError) errors.push(difficultyError);
+
+	const dateError = validateDateString(song.releaseDate, "releaseDate");
+	if (dateError) errors.push(dateError);
+
+	// Optional URLs
+	for (const urlField of ["spotifyUrl", "youtubeUrl"]) {
+		const urlError = validateOptionalUrl(song[urlField], urlField);
+		if (urlError) errors.push(urlError);
+	}
+
+	// Optional audio
+	if (song.audio !== undefined) {
+		const audio = song.audio as Record<string, unknown> | null;
+		if (!audio || typeof audio !== "object") {
+			errors.push({ field: "audio", message: "audio must be an object", value: song.audio });
+		} else {
+			const srcError = validateString(audio.src, "audio.src", { pattern: /\.(mp3|ogg)$/i });
+			if (srcError) errors.push(srcError);
+			if (typeof audio.preview !== "boolean") {
+				errors.push({
+					field: "audio.preview",
+					message: "audio.preview must be a boolean",
+					value: audio.preview,
+				});
+			}
+		}
+	}
+
+	// Optional lyrics
+	if (song.lyrics !== undefined) {
+		errors.push(
+			...validateLyrics(
+				song.lyrics,
+				"lyrics",
+				durationError ? undefined : (song.duration as string)
+			)
+		);
+	}
+
+	// Optional musical metadata
+	if (song.music !== undefined) {
+		errors.push(...validateMusicalMetadata(song.music));
+	}
+
+	// Cross references
+	if (context.albums && !albumIdError) {
+		const albumExists = context.albums.some((album) => album.id === song.albumId);
+		if (!albumExists) {
+			errors.push({
+				field: "albumId",
+				message: "albumId does not match any album",
+				value: song.albumId,
+			});
+		}
+	}
+
+	if (context.members && !patternCodeError) {
+		for (const { memberId } of getPatternParts(song.pattern as string)) {
+			if (!context.members.some((member) => member.id === memberId)) {
+				errors.push({
+					field: "pattern",
+					message: `part header "#${memberId}" does not match any band member`,
+					value: memberId,
+				});
+			}
+		}
+	}
+
+	if (errors.length > 0) {
+		return { success: false, errors };
+	}
+
+	return { success: true, data: data as Song, errors: [] };
+}
+
+/**
+ * Validates an Album object
+ * @param data - The data to validate
+ * @param context - Songs to resolve `songs` ids against (skipped if omitted)
+ * @returns Validation result with typed data if successful
+ */
+export function validateAlbum(
+	data: unknown,
+	context: { readonly songs?: readonly Song[] } = {}
+): ValidationResult<Album> {
+	const errors: ValidationError[] = [];
+
+	if (!data || typeof data !== "object") {
+		return { success: false, errors: [{ field: "album", message: "Album must be an object" }] };
+	}
+
+	const album = data as Record<string, unknown>;
+
+	// Required fields
+	const idError = validateString(album.id, "id", { minLength: 1 });
+	if (idError) errors.push(idError);
+
+	const titleError = validateString(album.title, "title", { minLength: 1, maxLength: 200 });
+	if (titleError) errors.push(titleError);
+
+	const typeError = validateEnum(album.type, "type", RELEASE_TYPES);
+	if (typeError) errors.push(typeError);
+
+	const descriptionError = validateString(album.description, "description");
+	if (descriptionError) errors.push(descriptionError);
+
+	const coverArtError = validateString(album.coverArt, "coverArt");
+	if (coverArtError) errors.push(coverArtError);
+
+	const dateError = validateDateString(album.releaseDate, "releaseDate");
+	if (dateError) errors.push(dateError);
+
+	// Optional URLs
+	for (const urlField of ["spotifyUrl", "youtubeUrl", "appleMusicUrl"]) {
+		const urlError = validateOptionalUrl(album[urlField], urlField);
+		if (urlError) errors.push(urlError);
+	}
+
+	// Song references
+	if (!Array.isArray(album.songs)) {
+		errors.push({ field: "songs", message: "songs must be an array", value: album.songs });
+	} else if (context.songs) {
+		const songs = context.songs;
+		album.songs.forEach((songId: unknown, index: number) => {
+			const field = `songs[${index}]`;
+			const song = songs.find((s) => s.id === songId);
+
+			if (!song) {
+				errors.push({ field, message: `${field} does not match any song`, value: songId });
+			} else if (song.albumId !== album.id) {
+				errors.push({
+					field,
+					message: `${field} belongs to album "${song.albumId}"`,
+					value: songId,
+				});
+			}
+		});
+	}
+
+	if (errors.length > 0) {
+		return { success: false, errors };
+	}
+
+	return { success: true, data: data as Album, errors: [] };
+}
+
+/** Post IDs that would clash with the news index's own routes */
+const RESERVED_POST_ID_REGEX = /^(\d+|tags)$/;
+
+/**
+ * Validates a news Post object
+ *
+ * Also flags IDs that clash with the news index's page numbers or tag
+ * pages and, given the band members, authors that aren't members.
+ *
+ * @param data - The data to validate
+ * @param context - Band members to resolve the author against
+ * @returns Validation result with typed data if successful
+ */
+export function validatePost(
+	data: unknown,
+	context: { readonly members?: readonly BandMember[] } = {}
+): ValidationResult<Post> {
+	const errors: ValidationError[] = [];
+
+	if (!data || typeof data !== "object") {
+		return { success: false, errors: [{ field: "post", message: "Post must be an object" }] };
+	}
+
+	const post = data as Record<string, unknown>;
+
+	// Required fields
+	const idError = validateString(post.id, "id", { minLength: 1 });
+	if (idError) errors.push(idError);
+	else if (RESERVED_POST_ID_REGEX.test(post.id as string)) {
+		errors.push({
+			field: "id",
+			message: 'id must not be a page number or "tags"',
+			value: post.id,
+		});
+	}
+
+	const titleError = validateString(post.title, "title", { minLength: 1, maxLength: 200 });
+	if (titleError) errors.push(titleError);
+
+	const descriptionError = validateString(post.description, "description", { minLength: 1 });
+	if (descriptionError) errors.push(descriptionError);
+
+	const dateError = validateDateString(post.date, "date");
+	if (dateError) errors.push(dateError);
+
+	const readingTimeError = validateNumber(post.readingTime, "readingTime", { min: 1 });
+	if (readingTimeError) errors.push(readingTimeError);
+
+	const authorError = validateString(post.author, "author", { minLength: 1 });
+	if (authorError) errors.push(authorError);
+	else if (context.members && !context.members.some((member) => member.id === post.author)) {
+		errors.push({
+			field: "author",
+			message: "author does not match any band member",
+			value: post.author,
+		});
+	}
+
+	if (!Array.isArray(post.tags)) {
+		errors.push({ field: "tags", message: "tags must be an array", value: post.tags });
+	} else {
+		post.tags.forEach((tag: unknown, index: number) => {
+			const tagError = validateString(tag, `tags[${index}]`, {
+				pattern: /^[a-z0-9]+(-[a-z0-9]+)*$/,
+			});
+			if (tagError) errors.push(tagError);
+		});
+	}
+
+	// Optional fields
+	if (post.coverImage !== undefined) {
+		const coverImageError = validateString(post.coverImage, "coverImage");
+		if (coverImageError) errors.push(coverImageError);
+	}
+
+	if (errors.length > 0) {
+		return { success: false, errors };
+	}
+
+	return { success: true, data: data as Post, errors: [] };
+}
+
 // =============================================================================
 // ARRAY VALIDATORS
 // =============================================================================
@@ -358,6 +1310,115 @@ export function validateArray<T>(
 	return errors;
 }
 
+// =============================================================================
+// CATALOG INTEGRITY
+// =============================================================================
+
+/**
+ * The collections that together describe the band's music
+ */
+export interface CatalogData {
+	readonly releases: readonly Release[];
+	readonly albums: readonly Album[];
+	readonly songs: readonly Song[];
+}
+
+/** Fields a release must share with the album of the same id */
+const RELEASE_ALBUM_SHARED_FIELDS = [
+	"title",
+	"releaseDate",
+	"coverArt",
+	"spotifyUrl",
+	"youtubeUrl",
+	"appleMusicUrl",
+] as const;
+
+/**
+ * Checks that releases, albums and songs agree with each other
+ *
+ * Flags releases whose album disagrees on title, date, cover art or
+ * streaming links, `tracks` counts that differ from the album's songs,
+ * more than one `isLatest` release, and songs that belong to no release.
+ *
+ * @param catalog - The releases, albums and songs to cross-check
+ * @returns Array of validation errors with `releases[i].field`-style paths (empty if consistent)
+ */
+export function validateCatalogIntegrity(catalog: CatalogData): readonly ValidationError[] {
+	const errors: ValidationError[] = [];
+	const { releases, albums, songs } = catalog;
+
+	releases.forEach((release, index) => {
+		const path = `releases[${index}]`;
+		const albumIndex = albums.findIndex((a) => a.id === release.id);
+		if (albumIndex === -1) return;
+
+		const album = albums[albumIndex];
+		const albumPath = `albums[${albumIndex}]`;
+
+		for (const key of RELEASE_ALBUM_SHARED_FIELDS) {
+			if (release[key] !== album[key]) {
+				errors.push({
+					field: `${path}.${key}`,
+					message: `${key} does not match ${albumPath}.${key} (${album[key] ?? "missing"})`,
+					value: release[key],
+				});
+			}
+		}
+
+		if (release.tracks !== undefined && release.tracks !== album.songs.length) {
+			errors.push({
+				field: `${path}.tracks`,
+				message: `tracks does not match ${albumPath}.songs (${album.songs.length} songs)`,
+				value: release.tracks,
+			});
+		}
+	});
+
+	albums.forEach((album, index) => {
+		if (!releases.some((r) => r.id === album.id)) {
+			errors.push({
+				field: `albums[${index}].id`,
+				message: "album has no matching release",
+				value: album.id,
+			});
+		}
+	});
+
+	const latestIndexes = releases.flatMap((r, index) => (r.isLatest ? [index] : []));
+	if (latestIndexes.length > 1) {
+		latestIndexes.slice(1).forEach((index) => {
+			errors.push({
+				field: `releases[${index}].isLatest`,
+				message: `only one release may be latest (already set on releases[${latestIndexes[0]}])`,
+				value: true,
+			});
+		});
+	}
+
+	songs.forEach((song, index) => {
+		const path = `songs[${index}]`;
+
+		if (!releases.some((r) => r.id === song.albumId)) {
+			errors.push({
+				field: `${path}.albumId`,
+				message: "song does not belong to any release",
+				value: song.albumId,
+			});
+		}
+
+		const album = albums.find((a) => a.id === song.albumId);
+		if (album && song.album !== album.title) {
+			errors.push({
+				field: `${path}.album`,
+				message: `album does not match the title of "${album.id}" (${album.title})`,
+				value: song.album,
+			});
+		}
+	});
+
+	return errors;
+}
+
 // =============================================================================
 // DEVELOPMENT HELPERS
 // =============================================================================